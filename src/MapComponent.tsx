@@ -1,17 +1,58 @@
-import React, { useRef, useEffect, useState } from "react";
+import React, { useRef, useEffect, useState, useId, useMemo } from "react";
 import { Map, View } from "ol";
 import TileLayer from "ol/layer/Tile";
 import VectorLayer from "ol/layer/Vector";
+import HeatmapLayer from "ol/layer/Heatmap";
 import VectorSource from "ol/source/Vector";
-import OSM from "ol/source/OSM";
-import { Point } from "ol/geom";
+import Cluster from "ol/source/Cluster";
+import Translate from "ol/interaction/Translate";
+import XYZ from "ol/source/XYZ";
+import { LineString, Point, Polygon } from "ol/geom";
+import { circular } from "ol/geom/Polygon";
 import { Feature } from "ol";
-import { fromLonLat } from "ol/proj";
-import { Style, Fill, Stroke, Circle, Text } from "ol/style";
+import { type FeatureLike } from "ol/Feature";
+import { asArray } from "ol/color";
+import { fromLonLat, toLonLat } from "ol/proj";
+import { getArea, getLength } from "ol/sphere";
+import { Style, Fill, Stroke, Circle, Text, Icon } from "ol/style";
 import "ol/ol.css";
+import { applyPinStyle } from "./applyAttributes";
+import { DEFAULT_MAX_ZOOM, getBlockLayers, type NamedLayer } from "./basemaps";
 import { calculateBounds } from "./calculateBounds";
-import { type MapPin, type MapConfig } from "./parseMapSyntax";
-import { Notice, App } from "obsidian";
+import { getClusterExtent } from "./clusters";
+import { getColorValue, PIN_COLORS } from "./colors";
+import { type PinEdit } from "./editMapBlock";
+import {
+  PIN_ICONS,
+  getIconImagePath,
+  getIconText,
+  getLucideIconId,
+} from "./pinIcons";
+import {
+  type MapPin,
+  type MapPolyline,
+  type MapPolygon,
+  type MapConfig,
+  type LineDash,
+} from "./parseMapSyntax";
+import {
+  Notice,
+  App,
+  Keymap,
+  Component,
+  MarkdownRenderer,
+  getIcon,
+  getIconIds,
+} from "obsidian";
+
+// Anything on the map that can be selected and shown in the details panel
+type MapItem = MapPin | MapPolyline | MapPolygon;
+
+// Where the map is looking, so it can be restored after an edit re-renders it
+export interface MapViewState {
+  center: { lat: number; lng: number };
+  zoom: number;
+}
 
 interface GroupDropdownProps {
   groups: string[];
@@ -147,67 +188,450 @@ const GroupDropdown: React.FC<GroupDropdownProps> = ({
   );
 };
 
+interface LayerDropdownProps {
+  basemaps: NamedLayer[];
+  overlays: NamedLayer[];
+  basemap: string;
+  shownOverlays: Set<string>;
+  onSelectBasemap: (name: string) => void;
+  onToggleOverlay: (name: string) => void;
+}
+
+// Switches the basemap and turns overlays on and off
+const LayerDropdown: React.FC<LayerDropdownProps> = ({
+  basemaps,
+  overlays,
+  basemap,
+  shownOverlays,
+  onSelectBasemap,
+  onToggleOverlay,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const options = [
+    ...basemaps.map((layer) => ({
+      name: layer.name,
+      isShown: layer.name === basemap,
+      mark: layer.name === basemap ? "◉" : "○",
+      onClick: () => onSelectBasemap(layer.name),
+    })),
+    ...overlays.map((layer) => ({
+      name: layer.name,
+      isShown: shownOverlays.has(layer.name),
+      mark: shownOverlays.has(layer.name) ? "☑" : "☐",
+      onClick: () => onToggleOverlay(layer.name),
+    })),
+  ];
+
+  return (
+    <div style={{ position: "relative" }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          width: "28px",
+          height: "28px",
+          backgroundColor: "rgba(0, 0, 0, 0.7)",
+          border: "none",
+          borderRadius: "4px",
+          cursor: "pointer",
+          fontSize: "14px",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          backdropFilter: "blur(4px)",
+          transition: "background-color 0.2s",
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.backgroundColor = "rgba(0, 0, 0, 0.8)";
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.backgroundColor = "rgba(0, 0, 0, 0.7)";
+        }}
+        title="Switch the basemap and overlays"
+      >
+        🗺️
+      </button>
+      {isOpen && (
+        <>
+          <div
+            style={{
+              position: "fixed",
+              top: 0,
+              left: 0,
+              right: 0,
+              bottom: 0,
+              zIndex: 999,
+            }}
+            onClick={() => setIsOpen(false)}
+          />
+          <div
+            style={{
+              position: "absolute",
+              bottom: "100%",
+              right: 0,
+              marginBottom: "4px",
+              backgroundColor: "var(--background-primary)",
+              border: "1px solid var(--background-modifier-border)",
+              borderRadius: "6px",
+              boxShadow:
+                "0 4px 16px rgba(0, 0, 0, 0.25), 0 2px 8px rgba(0, 0, 0, 0.15)",
+              minWidth: "140px",
+              maxWidth: "200px",
+              zIndex: 1000,
+              backdropFilter: "blur(8px)",
+              overflow: "hidden",
+            }}
+          >
+            {options.map((option, index) => (
+              <div
+                key={`${index}-${option.name}`}
+                onClick={() => {
+                  option.onClick();
+                  setIsOpen(false);
+                }}
+                style={{
+                  padding: "10px 14px",
+                  cursor: "pointer",
+                  fontSize: "13px",
+                  fontWeight: "500",
+                  color: "var(--text-normal)",
+                  backgroundColor: "transparent",
+                  borderBottom:
+                    index === options.length - 1
+                      ? "none"
+                      : index === basemaps.length - 1
+                        ? "2px solid var(--background-modifier-border)"
+                        : "1px solid var(--background-modifier-border-hover)",
+                  transition: "all 0.15s ease",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "8px",
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor =
+                    "var(--background-modifier-hover)";
+                  e.currentTarget.style.color = "var(--text-accent)";
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = "transparent";
+                  e.currentTarget.style.color = "var(--text-normal)";
+                }}
+              >
+                <span
+                  style={{
+                    fontSize: "14px",
+                    fontWeight: "600",
+                    color: option.isShown
+                      ? "var(--text-accent)"
+                      : "var(--text-muted)",
+                  }}
+                >
+                  {option.mark}
+                </span>
+                <span
+                  style={{
+                    flex: 1,
+                    whiteSpace: "nowrap",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                  }}
+                >
+                  {option.name}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface MarkdownDescriptionProps {
+  markdown: string;
+  app?: App;
+  sourcePath: string; // Note that links and embeds are resolved from
+}
+
+// A description rendered as Markdown, with links that open like they do in the note
+const MarkdownDescription: React.FC<MarkdownDescriptionProps> = ({
+  markdown,
+  app,
+  sourcePath,
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    if (!app) {
+      el.textContent = markdown;
+      return;
+    }
+
+    // Embeds and other rendered children are unloaded with this component
+    const component = new Component();
+    component.load();
+    MarkdownRenderer.render(app, markdown, el, sourcePath, component);
+    return () => {
+      component.unload();
+      el.empty();
+    };
+  }, [markdown, app, sourcePath]);
+
+  return (
+    <div
+      ref={ref}
+      className="map-pin-description"
+      style={{ color: "var(--text-muted)", fontSize: "12px" }}
+      onClick={(e) => {
+        const link = (e.target as HTMLElement).closest("a.internal-link");
+        if (!link || !app) return;
+        e.preventDefault();
+        app.workspace.openLinkText(
+          link.getAttribute("data-href") ?? "",
+          sourcePath,
+          Keymap.isModEvent(e.nativeEvent)
+        );
+      }}
+    />
+  );
+};
+
+interface PinEditorProps {
+  pin: MapPin;
+  groups: string[];
+  onChange: (
+    changes: Partial<Pick<MapPin, "label" | "color" | "icon" | "group">>
+  ) => void;
+}
+
+// Fields for a pin's label, color, icon and group, saved when a field is left
+const PinEditor: React.FC<PinEditorProps> = ({ pin, groups, onChange }) => {
+  const listId = useId();
+  const fields: { key: "label" | "color" | "icon" | "group"; name: string }[] =
+    [
+      { key: "label", name: "Label" },
+      { key: "color", name: "Color" },
+      { key: "icon", name: "Icon" },
+      { key: "group", name: "Group" },
+    ];
+  const suggestions = {
+    label: [],
+    color: Object.keys(PIN_COLORS),
+    icon: [
+      ...Object.keys(PIN_ICONS),
+      ...getIconIds().filter((id) => id.startsWith("lucide-")),
+    ],
+    group: groups,
+  };
+
+  return (
+    <div
+      style={{
+        display: "grid",
+        gridTemplateColumns: "auto 1fr",
+        gap: "4px 8px",
+        alignItems: "center",
+        marginBottom: "8px",
+      }}
+    >
+      {fields.map(({ key, name }) => (
+        <React.Fragment key={key}>
+          <label
+            htmlFor={`${listId}-${key}`}
+            style={{ color: "var(--text-muted)", fontSize: "11px" }}
+          >
+            {name}
+          </label>
+          <input
+            id={`${listId}-${key}`}
+            type="text"
+            list={`${listId}-${key}-options`}
+            defaultValue={pin[key] ?? ""}
+            onBlur={(e) => {
+              const value = e.currentTarget.value.trim();
+              if (value !== (pin[key] ?? "")) {
+                onChange({ [key]: value });
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            style={{ fontSize: "12px", height: "24px", minWidth: 0 }}
+          />
+          <datalist id={`${listId}-${key}-options`}>
+            {suggestions[key].map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
 interface MapComponentProps {
   pins: MapPin[];
+  polylines?: MapPolyline[];
+  polygons?: MapPolygon[];
   initialCenter: [number, number];
   initialZoom: number;
   pinSize: number;
   defaultPinColor: string;
+  basemaps?: NamedLayer[]; // Tile layers from the settings the map can be switched to
+  overlays?: NamedLayer[]; // Tile layers from the settings that can be shown on top
   onOpenModal?: () => void;
   height?: string;
+  compact?: boolean; // Hide the controls, for small inline maps
   app?: App;
+  sourcePath?: string; // The note the map is in, for links in descriptions
   mapConfig?: MapConfig;
+  onEditPin?: (edit: PinEdit, view: MapViewState) => void; // Offers edit mode; the edit is written back to the block
+  editing?: boolean; // Start in edit mode, e.g. after an edit re-rendered the map
+  onEditingChange?: (editing: boolean) => void;
 }
 
 export const MapComponent: React.FC<MapComponentProps> = ({
-  pins,
+  pins: blockPins,
+  polylines = [],
+  polygons = [],
   initialCenter,
   initialZoom,
   pinSize,
   defaultPinColor,
+  basemaps = [],
+  overlays = [],
   onOpenModal,
   height = "400px",
+  compact = false,
   app,
+  sourcePath = "",
   mapConfig,
+  onEditPin,
+  editing = false,
+  onEditingChange,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const olMapRef = useRef<Map | null>(null);
+  const pinLayerRef = useRef<VectorLayer<VectorSource> | null>(null);
+  const clusterSourceRef = useRef<Cluster | null>(null);
+  const polylineLayerRef = useRef<VectorLayer<VectorSource> | null>(null);
+  const polygonLayerRef = useRef<VectorLayer<VectorSource> | null>(null);
+  const tileLayersRef = useRef<TileLayer<XYZ>[]>([]);
   const initialViewRef = useRef<{
     center: [number, number];
     zoom: number;
   } | null>(null);
 
+  // Pins as drawn, with the block's named styles and group defaults filled in
+  const pins = useMemo(
+    () => blockPins.map((pin) => applyPinStyle(pin, mapConfig)),
+    [blockPins, mapConfig]
+  );
+
+  // Edits are made to the pin as written, so styles are not copied into the block
+  const getBlockPin = (pin: MapPin) => blockPins[pins.indexOf(pin)] ?? pin;
+
+  // Image icons by the icon text that names them, for icons found in the vault
+  const iconUrls = useMemo(() => {
+    const urls: Record<string, string> = {};
+    if (!app) return urls;
+
+    for (const { icon } of pins) {
+      const path = getIconImagePath(icon);
+      const file =
+        path && app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+      if (icon && file) {
+        urls[icon] = app.vault.getResourcePath(file);
+      }
+    }
+    return urls;
+  }, [pins, app, sourcePath]);
+
+  // A pin's image icon with its size and anchor, from the pin or the block
+  const getImageIcon = (pin: MapPin): ImageIcon | undefined => {
+    const url = pin.icon && iconUrls[pin.icon];
+    if (!url) return undefined;
+
+    return {
+      url,
+      size: pin.iconSize ?? mapConfig?.iconSize ?? DEFAULT_ICON_SIZE,
+      anchor: pin.iconAnchor ?? mapConfig?.iconAnchor ?? [0.5, 0.5],
+    };
+  };
+
+  // Basemaps and overlays the map can show, from the settings and the block
+  const blockLayers = useMemo(
+    () => getBlockLayers(basemaps, overlays, mapConfig),
+    [basemaps, overlays, mapConfig]
+  );
+
+  // The basemap and overlays shown; a basemap removed from the settings falls
+  // back to the block's
+  const [chosenBasemap, setChosenBasemap] = useState(blockLayers.basemap);
+  const basemap = blockLayers.basemaps.some(
+    (layer) => layer.name === chosenBasemap
+  )
+    ? chosenBasemap
+    : blockLayers.basemap;
+  const [shownOverlays, setShownOverlays] = useState<Set<string>>(
+    () => new Set(blockLayers.shownOverlays)
+  );
+
   // Group filtering state
   const [hiddenGroups, setHiddenGroups] = useState<Set<string>>(new Set());
 
-  // Pin selection state
-  const [selectedPin, setSelectedPin] = useState<MapPin | null>(null);
+  // Pin, line and polygon selection state
+  const [selectedItem, setSelectedItem] = useState<MapItem | null>(null);
+
+  // Pins of a clicked cluster that zooming in cannot separate, listed to pick from
+  const [clusterPins, setClusterPins] = useState<MapPin[] | null>(null);
 
   // Hover state for labels on hover functionality
-  const [hoveredPin, setHoveredPin] = useState<MapPin | null>(null);
+  const [hoveredItem, setHoveredItem] = useState<MapItem | null>(null);
+
+  // Edit mode: click to add pins, drag to move them, edit them in the details panel
+  const [isEditing, setIsEditing] = useState(editing && !!onEditPin);
 
-  // Get unique groups from pins
+  // Map event handlers are set up once per map, so they read edit mode from here
+  const editRef = useRef({ isEditing, onEditPin });
+  editRef.current = { isEditing, onEditPin };
+
+  // Get unique groups from pins, lines and polygons
   const groups = Array.from(
-    new Set(pins.map((pin) => pin.group).filter(Boolean))
+    new Set(
+      [...pins, ...polylines, ...polygons]
+        .map((item) => item.group)
+        .filter(Boolean)
+    )
   ) as string[];
 
   useEffect(() => {
     if (!mapRef.current || olMapRef.current) return;
 
-    // Filter pins based on hidden groups
-    const visiblePins = pins.filter(
-      (pin) => !pin.group || !hiddenGroups.has(pin.group)
-    );
+    // Filter pins, lines and polygons based on hidden groups
+    const visiblePins = filterVisible(pins, hiddenGroups);
+    const visiblePolylines = filterVisible(polylines, hiddenGroups);
+    const visiblePolygons = filterVisible(polygons, hiddenGroups);
+    const boundsPoints = getBoundsPoints(visiblePins, [
+      ...visiblePolylines,
+      ...visiblePolygons,
+    ]);
 
-    // Parse height to get numeric value (assume pixels if no unit specified)
-    const containerHeight = parseInt(height.replace(/[^\d]/g, "")) || 400;
-    const containerWidth = mapRef.current?.clientWidth || 400;
+    // Measure the container so the fitted view matches the map's real size
+    const { width: containerWidth, height: containerHeight } = getContainerSize(
+      mapRef.current
+    );
 
-    // Calculate optimal view for visible pins
-    const optimalView =
-      visiblePins.length > 1
-        ? calculateBounds(visiblePins, containerWidth, containerHeight)
-        : { center: initialCenter, zoom: initialZoom };
+    // Calculate optimal view for visible pins and shapes
+    const optimalView = applyConfigView(
+      shouldFitBounds(boundsPoints)
+        ? calculateBounds(boundsPoints, containerWidth, containerHeight)
+        : { center: initialCenter, zoom: initialZoom },
+      mapConfig,
+      containerWidth,
+      containerHeight
+    );
     initialViewRef.current = optimalView;
 
     // Create marker features with improved styling
@@ -226,12 +650,118 @@ export const MapComponent: React.FC<MapComponentProps> = ({
       features: features,
     });
 
-    const vectorLayer = new VectorLayer({
-      source: vectorSource,
+    const polylineFeatures = visiblePolylines.map(
+      (polyline) =>
+        new Feature({
+          geometry: new LineString(
+            polyline.points.map((point) => fromLonLat([point.lng, point.lat]))
+          ),
+          polyline: polyline,
+        })
+    );
+
+    const polygonFeatures = visiblePolygons.map(
+      (polygon) =>
+        new Feature({
+          geometry: new Polygon([
+            polygon.points.map((point) => fromLonLat([point.lng, point.lat])),
+          ]),
+          polygon: polygon,
+        })
+    );
+
+    // In heatmap mode pins are only drawn as density
+    const isHeatmap = mapConfig?.mode === "heatmap";
+
+    // Radius circles are geodesic, so they keep their true size away from the equator
+    const radiusFeatures = visiblePins
+      .filter(
+        (pin): pin is MapPin & { radius: number } => !!pin.radius && !isHeatmap
+      )
+      .map(
+        (pin) =>
+          new Feature({
+            geometry: circular([pin.lng, pin.lat], pin.radius, 128).transform(
+              "EPSG:4326",
+              "EPSG:3857"
+            ),
+            pin: pin,
+          })
+      );
+
+    // Areas sit at the bottom so lines and pins drawn over them stay clickable
+    const polygonLayer = new VectorLayer({
+      source: new VectorSource({
+        features: [...radiusFeatures, ...polygonFeatures],
+      }),
+      style: (feature) => {
+        const pin = feature.get("pin") as MapPin | undefined;
+        if (pin) {
+          return getRadiusStyle(pin, {
+            isSelected: selectedItem === pin,
+            defaultColor: defaultPinColor,
+          });
+        }
+
+        const polygon = feature.get("polygon") as MapPolygon;
+        return getPolygonStyle(polygon, {
+          isSelected: selectedItem === polygon,
+          showLabel:
+            !mapConfig?.labelsOnHover ||
+            hoveredItem === polygon ||
+            selectedItem === polygon,
+          defaultColor: defaultPinColor,
+        });
+      },
+    });
+
+    // Lines are drawn below the pins so markers stay clickable
+    const polylineLayer = new VectorLayer({
+      source: new VectorSource({ features: polylineFeatures }),
       style: (feature) => {
+        const polyline = feature.get("polyline") as MapPolyline;
+        return getPolylineStyle(polyline, {
+          isSelected: selectedItem === polyline,
+          showLabel:
+            !mapConfig?.labelsOnHover ||
+            hoveredItem === polyline ||
+            selectedItem === polyline,
+          defaultColor: defaultPinColor,
+        });
+      },
+    });
+
+    // Nearby pins are drawn as one counted circle when the block turns on
+    // clustering, except while editing so each pin can be dragged
+    const clusterSource =
+      mapConfig?.cluster && !isHeatmap
+        ? new Cluster({ distance: mapConfig.cluster, source: vectorSource })
+        : null;
+
+    // Lucide icons are tinted to match the theme
+    const theme = getThemeColors();
+
+    const vectorLayer = new VectorLayer({
+      source:
+        clusterSource && !editRef.current.isEditing
+          ? clusterSource
+          : vectorSource,
+      style: (clusterFeature) => {
+        const clustered = getClusteredFeatures(clusterFeature);
+        if (clustered.length > 1) {
+          return getClusterStyle(clustered, {
+            isSelected: clustered.some(
+              (feature) => feature.get("pin") === selectedItem
+            ),
+            pinSize,
+            defaultColor: defaultPinColor,
+          });
+        }
+
+        const feature = clustered[0];
         const name = feature.get("name");
         const pin = feature.get("pin") as MapPin;
-        const isSelected = selectedPin === pin;
+        const isSelected = selectedItem === pin;
 
         // Get pin color or use configured default
         const pinColor = getColorValue(pin.color) || defaultPinColor;
@@ -241,18 +771,33 @@ export const MapComponent: React.FC<MapComponentProps> = ({
 
         const styles = [];
 
-        // Main pin circle (configurable size) with selection highlighting
+        // Main pin circle (configurable size) with selection highlighting,
+        // or the pin's image icon
+        const imageIcon = getImageIcon(pin);
+        const lucideIcon = getLucideIconId(pin.icon);
         styles.push(
-          new Style({
-            image: new Circle({
-              radius: isSelected ? pinSize + 3 : pinSize,
-              fill: new Fill({ color: pinColor }),
-              stroke: new Stroke({
-                color: isSelected ? "#ffd700" : "#ffffff",
-                width: isSelected ? 4 : 3,
-              }),
-            }),
-          })
+          ...(imageIcon
+            ? [getImageIconStyle(imageIcon, isSelected)]
+            : lucideIcon
+              ? getLucideIconStyles(lucideIcon, {
+                  isSelected,
+                  pinSize,
+                  pinColor,
+                  tint: getColorValue(pin.color) || theme.text,
+                  background: theme.background,
+                })
+              : [
+                  new Style({
+                    image: new Circle({
+                      radius: isSelected ? pinSize + 3 : pinSize,
+                      fill: new Fill({ color: pinColor }),
+                      stroke: new Stroke({
+                        color: isSelected ? "#ffd700" : "#ffffff",
+                        width: isSelected ? 4 : 3,
+                      }),
+                    }),
+                  }),
+                ])
         );
 
         // Icon inside the pin (if icon is specified)
@@ -276,14 +821,14 @@ export const MapComponent: React.FC<MapComponentProps> = ({
         // Label above the pin (if label exists and is not just coordinates)
         const isCoordinatesOnly = name === `${pin.lat}, ${pin.lng}`;
         const shouldShowLabel = name && !isCoordinatesOnly && 
-          (!mapConfig?.labelsOnHover || hoveredPin === pin || isSelected);
+          (!mapConfig?.labelsOnHover || hoveredItem === pin || isSelected);
         
         if (shouldShowLabel) {
           styles.push(
             new Style({
               text: new Text({
                 text: name,
-                offsetY: -30, // Position above the pin
+                offsetY: imageIcon ? getLabelOffset(imageIcon) : -30, // Position above the pin
                 fill: new Fill({ color: "#000000" }),
                 stroke: new Stroke({ color: "#ffffff", width: 3 }),
                 font: "12px sans-serif",
@@ -299,106 +844,273 @@ export const MapComponent: React.FC<MapComponentProps> = ({
       },
     });
 
+    // Weights are scaled by the largest of all pins, not just the visible ones,
+    // so groups toggled on one at a time can be compared
+    const maxWeight = Math.max(0, ...pins.map((pin) => pin.weight ?? 1));
+    const heatmapLayer = isHeatmap
+      ? new HeatmapLayer({
+          source: vectorSource,
+          radius: mapConfig?.heatmapRadius,
+          blur: mapConfig?.heatmapBlur,
+          weight: (feature) =>
+            maxWeight > 0
+              ? ((feature.get("pin") as MapPin).weight ?? 1) / maxWeight
+              : 0,
+        })
+      : null;
+
+    // A heatmap shows density, so its pins cannot be picked out
+    const isSelectable = (layer: unknown) => layer !== heatmapLayer;
+
+    // Every basemap and overlay gets a layer, shown when it is chosen
+    const tileLayers = [
+      ...blockLayers.basemaps.map((layer) => createTileLayer(layer, false)),
+      ...blockLayers.overlays.map((layer) => createTileLayer(layer, true)),
+    ];
+
     const map = new Map({
       target: mapRef.current,
       controls: [],
       layers: [
-        new TileLayer({
-          source: new OSM({
-            url: mapConfig?.mapLayerURL,
-          }),
-        }),
-        vectorLayer,
+        ...tileLayers,
+        polygonLayer,
+        polylineLayer,
+        heatmapLayer || vectorLayer,
       ],
       view: new View({
         center: fromLonLat(optimalView.center),
         zoom: optimalView.zoom,
+        minZoom: mapConfig?.minZoom,
+        maxZoom: mapConfig?.maxZoom,
       }),
     });
 
-    // Add click handler for pin selection
+    // Add click handler for pin, line and polygon selection
     map.on("click", (event) => {
-      const feature = map.forEachFeatureAtPixel(event.pixel, (feature) => {
-        return feature;
-      });
+      const feature = map.forEachFeatureAtPixel(
+        event.pixel,
+        (feature) => {
+          return feature;
+        },
+        { hitTolerance: FEATURE_HIT_TOLERANCE, layerFilter: isSelectable }
+      );
 
+      setClusterPins(null);
       if (feature) {
-        const clickedPin = feature.get("pin") as MapPin;
-        if (selectedPin && selectedPin === clickedPin) {
+        // A cluster zooms in until its pins come apart, or lists pins that cannot
+        const clustered = getClusteredFeatures(feature);
+        if (clustered.length > 1) {
+          const view = map.getView();
+          const extent = getClusterExtent(
+            clustered.map((member) =>
+              (member.getGeometry() as Point).getCoordinates()
+            ),
+            view.getZoom() ?? 0,
+            view.getMaxZoom()
+          );
+          if (extent) {
+            view.fit(extent, {
+              padding: [60, 60, 60, 60],
+              maxZoom: Math.min(view.getMaxZoom(), (view.getZoom() ?? 0) + 4),
+              duration: 300,
+            });
+          } else {
+            setSelectedItem(null);
+            setClusterPins(
+              clustered
+                .map((member) => member.get("pin") as MapPin | undefined)
+                .filter((pin): pin is MapPin => !!pin)
+            );
+          }
+          return;
+        }
+
+        // Pins that came from a note open the note; Ctrl/Cmd-click opens a new tab
+        const clickedPin = clustered[0].get("pin") as MapPin | undefined;
+        if (clickedPin?.notePath && app) {
+          app.workspace.openLinkText(
+            clickedPin.notePath,
+            "",
+            Keymap.isModEvent(event.originalEvent as MouseEvent)
+          );
+          return;
+        }
+
+        const clickedItem = getFeatureItem(feature);
+        if (selectedItem && selectedItem === clickedItem) {
           // Deselect if clicking the same pin
-          setSelectedPin(null);
+          setSelectedItem(null);
         } else {
           // Select the clicked pin
-          setSelectedPin(clickedPin);
+          setSelectedItem(clickedItem);
         }
+      } else if (editRef.current.isEditing && editRef.current.onEditPin) {
+        // In edit mode a click on an empty spot adds a pin there
+        const [lng, lat] = toLonLat(event.coordinate);
+        editRef.current.onEditPin({ type: "add", lat, lng }, getViewState(map));
       } else {
         // Click on empty area, deselect
-        setSelectedPin(null);
+        setSelectedItem(null);
       }
     });
 
     // Add pointer cursor on pin hover and track hovered pin for label visibility
     map.on("pointermove", (event) => {
-      const feature = map.forEachFeatureAtPixel(event.pixel, (feature) => {
-        return feature;
-      });
+      const feature = map.forEachFeatureAtPixel(
+        event.pixel,
+        (feature) => {
+          return feature;
+        },
+        { hitTolerance: FEATURE_HIT_TOLERANCE, layerFilter: isSelectable }
+      );
 
       // Change cursor to pointer when hovering over a pin
-      map.getTargetElement().style.cursor = feature ? "pointer" : "";
+      const isEditing = editRef.current.isEditing;
+      map.getTargetElement().style.cursor = feature
+        ? isEditing && isEditablePin(feature.get("pin"))
+          ? "move"
+          : "pointer"
+        : isEditing
+          ? "crosshair"
+          : "";
       
       // Update hovered pin for label visibility
       if (feature) {
-        const pin = feature.get("pin") as MapPin;
-        setHoveredPin(pin);
+        setHoveredItem(getFeatureItem(feature));
       } else {
-        setHoveredPin(null);
+        setHoveredItem(null);
       }
     });
 
     olMapRef.current = map;
+    pinLayerRef.current = heatmapLayer ? null : vectorLayer;
+    clusterSourceRef.current = clusterSource;
+    polylineLayerRef.current = polylineLayer;
+    polygonLayerRef.current = polygonLayer;
+    tileLayersRef.current = tileLayers;
 
     return () => {
       if (olMapRef.current) {
         olMapRef.current.setTarget(undefined);
         olMapRef.current = null;
+        pinLayerRef.current = null;
+        clusterSourceRef.current = null;
+        polylineLayerRef.current = null;
+        polygonLayerRef.current = null;
+        tileLayersRef.current = [];
       }
     };
   }, [
     pins,
+    polylines,
+    polygons,
     initialCenter,
     initialZoom,
     pinSize,
     defaultPinColor,
     hiddenGroups,
     mapConfig,
+    blockLayers,
+  ]);
+
+  // Show the chosen basemap and overlays, also after the map is rebuilt
+  useEffect(() => {
+    for (const layer of tileLayersRef.current) {
+      const name = layer.get("name");
+      layer.setVisible(
+        layer.get("overlay") ? shownOverlays.has(name) : name === basemap
+      );
+    }
+  }, [
+    basemap,
+    shownOverlays,
+    pins,
+    polylines,
+    polygons,
+    hiddenGroups,
+    mapConfig,
+    blockLayers,
+  ]);
+
+  // Pins are clustered again when editing ends
+  useEffect(() => {
+    const clusterSource = clusterSourceRef.current;
+    if (!pinLayerRef.current || !clusterSource) return;
+
+    pinLayerRef.current.setSource(
+      isEditing ? clusterSource.getSource() : clusterSource
+    );
+  }, [isEditing, pins, polylines, polygons, hiddenGroups, mapConfig]);
+
+  // Let pins written in the block be dragged while editing
+  useEffect(() => {
+    const map = olMapRef.current;
+    if (!map || !pinLayerRef.current || !isEditing || !onEditPin) return;
+
+    const translate = new Translate({
+      layers: [pinLayerRef.current],
+      filter: (feature) => isEditablePin(feature.get("pin")),
+    });
+    translate.on("translateend", (event) => {
+      const feature = event.features.item(0);
+      const point = feature?.getGeometry() as Point | undefined;
+      if (!point) return;
+
+      const [lng, lat] = toLonLat(point.getCoordinates());
+      onEditPin(
+        {
+          type: "update",
+          pin: getBlockPin(feature.get("pin")),
+          changes: { lat, lng },
+        },
+        getViewState(map)
+      );
+    });
+
+    map.addInteraction(translate);
+    return () => {
+      map.removeInteraction(translate);
+    };
+  }, [
+    isEditing,
+    onEditPin,
+    pins,
+    polylines,
+    polygons,
+    hiddenGroups,
+    mapConfig,
   ]);
 
   // Separate effect to recalculate bounds when groups change
   useEffect(() => {
     if (!olMapRef.current) return;
 
-    // Filter pins based on current hidden groups
-    const visiblePins = pins.filter(
-      (pin) => !pin.group || !hiddenGroups.has(pin.group)
-    );
+    // Filter pins, lines and polygons based on current hidden groups
+    const boundsPoints = getBoundsPoints(filterVisible(pins, hiddenGroups), [
+      ...filterVisible(polylines, hiddenGroups),
+      ...filterVisible(polygons, hiddenGroups),
+    ]);
 
     // Only recalculate if we have visible pins and the map is already created
-    if (visiblePins.length > 0) {
+    if (boundsPoints.length > 0) {
       // Get current container dimensions
-      const containerHeight = parseInt(height.replace(/[^\d]/g, "")) || 400;
-      const containerWidth =
-        olMapRef.current.getTargetElement()?.clientWidth || 400;
+      const { width: containerWidth, height: containerHeight } =
+        getContainerSize(olMapRef.current.getTargetElement());
 
-      const optimalView =
-        visiblePins.length > 1
-          ? calculateBounds(visiblePins, containerWidth, containerHeight)
+      const optimalView = applyConfigView(
+        shouldFitBounds(boundsPoints)
+          ? calculateBounds(boundsPoints, containerWidth, containerHeight)
           : {
-              center: [visiblePins[0].lng, visiblePins[0].lat] as [
+              center: [boundsPoints[0].lng, boundsPoints[0].lat] as [
                 number,
                 number,
               ],
               zoom: initialZoom,
-            };
+            },
+        mapConfig,
+        containerWidth,
+        containerHeight
+      );
 
       // Update to the new bounds immediately
       const view = olMapRef.current.getView();
@@ -408,23 +1120,72 @@ export const MapComponent: React.FC<MapComponentProps> = ({
       // Update the initial view reference for reset button
       initialViewRef.current = optimalView;
     }
-  }, [hiddenGroups, pins, initialZoom]);
+  }, [hiddenGroups, pins, polylines, polygons, initialZoom, mapConfig]);
 
   // Separate effect to update pin styles when selection changes (without recreating map)
   useEffect(() => {
     if (!olMapRef.current) return;
 
-    const layers = olMapRef.current.getLayers().getArray();
-    const vectorLayer = layers.find(
-      (layer) => layer instanceof VectorLayer
-    ) as VectorLayer<VectorSource>;
+    const vectorLayer = pinLayerRef.current;
+    const polylineLayer = polylineLayerRef.current;
+    const polygonLayer = polygonLayerRef.current;
+
+    if (polygonLayer) {
+      polygonLayer.setStyle((feature) => {
+        const pin = feature.get("pin") as MapPin | undefined;
+        if (pin) {
+          return getRadiusStyle(pin, {
+            isSelected: selectedItem === pin,
+            defaultColor: defaultPinColor,
+          });
+        }
+
+        const polygon = feature.get("polygon") as MapPolygon;
+        return getPolygonStyle(polygon, {
+          isSelected: selectedItem === polygon,
+          showLabel:
+            !mapConfig?.labelsOnHover ||
+            hoveredItem === polygon ||
+            selectedItem === polygon,
+          defaultColor: defaultPinColor,
+        });
+      });
+    }
+
+    if (polylineLayer) {
+      polylineLayer.setStyle((feature) => {
+        const polyline = feature.get("polyline") as MapPolyline;
+        return getPolylineStyle(polyline, {
+          isSelected: selectedItem === polyline,
+          showLabel:
+            !mapConfig?.labelsOnHover ||
+            hoveredItem === polyline ||
+            selectedItem === polyline,
+          defaultColor: defaultPinColor,
+        });
+      });
+    }
 
     if (vectorLayer) {
-      // Update the style function to use current selectedPin value
-      vectorLayer.setStyle((feature) => {
+      const theme = getThemeColors();
+
+      // Update the style function to use current selectedItem value
+      vectorLayer.setStyle((clusterFeature) => {
+        const clustered = getClusteredFeatures(clusterFeature);
+        if (clustered.length > 1) {
+          return getClusterStyle(clustered, {
+            isSelected: clustered.some(
+              (feature) => feature.get("pin") === selectedItem
+            ),
+            pinSize,
+            defaultColor: defaultPinColor,
+          });
+        }
+
+        const feature = clustered[0];
         const name = feature.get("name");
         const pin = feature.get("pin") as MapPin;
-        const isSelected = selectedPin === pin;
+        const isSelected = selectedItem === pin;
 
         // Get pin color or use configured default
         const pinColor = getColorValue(pin.color) || defaultPinColor;
@@ -434,18 +1195,33 @@ export const MapComponent: React.FC<MapComponentProps> = ({
 
         const styles = [];
 
-        // Main pin circle (configurable size) with selection highlighting
+        // Main pin circle (configurable size) with selection highlighting,
+        // or the pin's image icon
+        const imageIcon = getImageIcon(pin);
+        const lucideIcon = getLucideIconId(pin.icon);
         styles.push(
-          new Style({
-            image: new Circle({
-              radius: isSelected ? pinSize + 3 : pinSize,
-              fill: new Fill({ color: pinColor }),
-              stroke: new Stroke({
-                color: isSelected ? "#ffd700" : "#ffffff",
-                width: isSelected ? 4 : 3,
-              }),
-            }),
-          })
+          ...(imageIcon
+            ? [getImageIconStyle(imageIcon, isSelected)]
+            : lucideIcon
+              ? getLucideIconStyles(lucideIcon, {
+                  isSelected,
+                  pinSize,
+                  pinColor,
+                  tint: getColorValue(pin.color) || theme.text,
+                  background: theme.background,
+                })
+              : [
+                  new Style({
+                    image: new Circle({
+                      radius: isSelected ? pinSize + 3 : pinSize,
+                      fill: new Fill({ color: pinColor }),
+                      stroke: new Stroke({
+                        color: isSelected ? "#ffd700" : "#ffffff",
+                        width: isSelected ? 4 : 3,
+                      }),
+                    }),
+                  }),
+                ])
         );
 
         // Icon inside the pin (if icon is specified)
@@ -469,14 +1245,14 @@ export const MapComponent: React.FC<MapComponentProps> = ({
         // Label above the pin (if label exists and is not just coordinates)
         const isCoordinatesOnly = name === `${pin.lat}, ${pin.lng}`;
         const shouldShowLabel = name && !isCoordinatesOnly && 
-          (!mapConfig?.labelsOnHover || hoveredPin === pin || isSelected);
+          (!mapConfig?.labelsOnHover || hoveredItem === pin || isSelected);
         
         if (shouldShowLabel) {
           styles.push(
             new Style({
               text: new Text({
                 text: name,
-                offsetY: -30, // Position above the pin
+                offsetY: imageIcon ? getLabelOffset(imageIcon) : -30, // Position above the pin
                 fill: new Fill({ color: "#000000" }),
                 stroke: new Stroke({ color: "#ffffff", width: 3 }),
                 font: "12px sans-serif",
@@ -491,7 +1267,19 @@ export const MapComponent: React.FC<MapComponentProps> = ({
         return styles;
       });
     }
-  }, [selectedPin, hoveredPin, pinSize, defaultPinColor, mapConfig]);
+  }, [
+    selectedItem,
+    hoveredItem,
+    pinSize,
+    defaultPinColor,
+    mapConfig,
+    iconUrls,
+  ]);
+
+  const handleToggleEditing = () => {
+    setIsEditing(!isEditing);
+    onEditingChange?.(!isEditing);
+  };
 
   const handleReset = () => {
     if (olMapRef.current && initialViewRef.current) {
@@ -504,6 +1292,28 @@ export const MapComponent: React.FC<MapComponentProps> = ({
     }
   };
 
+  const selectedPin =
+    selectedItem && isMapPin(selectedItem) ? selectedItem : null;
+  const selectedNotation = selectedPin?.notation;
+  const selectedProperties = selectedPin?.properties;
+  const selectedLucideIcon = getLucideIconId(selectedPin?.icon);
+  const selectedIconUrl =
+    selectedPin?.icon &&
+    (iconUrls[selectedPin.icon] ||
+      (selectedLucideIcon &&
+        getLucideIconUrl(
+          selectedLucideIcon,
+          getColorValue(selectedPin.color) || getThemeColors().text
+        )));
+  const selectedPolygon =
+    selectedItem && polygons.includes(selectedItem as MapPolygon)
+      ? (selectedItem as MapPolygon)
+      : null;
+  const selectedPolyline =
+    selectedItem && !isMapPin(selectedItem) && !selectedPolygon
+      ? (selectedItem as MapPolyline)
+      : null;
+
   return (
     <div style={{ position: "relative", width: "100%", height }}>
       <div
@@ -516,7 +1326,7 @@ export const MapComponent: React.FC<MapComponentProps> = ({
       />
 
       {/* Pin details panel */}
-      {selectedPin && (
+      {selectedItem && (
         <div
           style={{
             position: "absolute",
@@ -539,10 +1349,10 @@ export const MapComponent: React.FC<MapComponentProps> = ({
               marginBottom: "12px",
             }}
           >
-            {selectedPin.link && (
+            {selectedItem.link && (
               <button
                 onClick={() => {
-                  window.open(selectedPin.link, "_blank");
+                  window.open(selectedItem.link, "_blank");
                 }}
                 style={{
                   position: "absolute",
@@ -584,13 +1394,18 @@ export const MapComponent: React.FC<MapComponentProps> = ({
                 color: "var(--text-normal)",
                 lineHeight: "1.2",
                 paddingRight: "24px",
-                paddingLeft: selectedPin.link ? "24px" : "0",
+                paddingLeft: selectedItem.link ? "24px" : "0",
               }}
             >
-              {selectedPin.label || "Pin Details"}
+              {selectedItem.label ||
+                (selectedPolygon
+                  ? "Area Details"
+                  : selectedPolyline
+                    ? "Line Details"
+                    : "Pin Details")}
             </h3>
             <button
-              onClick={() => setSelectedPin(null)}
+              onClick={() => setSelectedItem(null)}
               style={{
                 position: "absolute",
                 top: "0",
@@ -625,62 +1440,10 @@ export const MapComponent: React.FC<MapComponentProps> = ({
           </div>
 
           <div style={{ color: "var(--text-normal)", fontSize: "12px" }}>
-            <div style={{ marginBottom: "8px" }}>
-              <div
-                style={{ display: "flex", alignItems: "center", gap: "6px" }}
-              >
-                <div
-                  style={{
-                    fontFamily: "monospace",
-                    color: "var(--text-muted)",
-                    fontSize: "11px",
-                  }}
-                >
-                  {selectedPin.lat.toFixed(6)}, {selectedPin.lng.toFixed(6)}
-                </div>
-                <button
-                  onClick={() => {
-                    navigator.clipboard.writeText(
-                      `${selectedPin.lat.toFixed(6)}, ${selectedPin.lng.toFixed(6)}`
-                    );
-                    if (app) {
-                      new Notice("Coordinates copied to clipboard");
-                    }
-                  }}
-                  style={{
-                    width: "14px",
-                    height: "14px",
-                    backgroundColor: "transparent",
-                    border: "1px solid var(--background-modifier-border)",
-                    borderRadius: "2px",
-                    cursor: "pointer",
-                    fontSize: "8px",
-                    display: "flex",
-                    alignItems: "center",
-                    justifyContent: "center",
-                    transition: "all 0.2s",
-                    padding: "0",
-                  }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor =
-                      "var(--background-modifier-hover)";
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = "transparent";
-                  }}
-                  title="Copy coordinates"
-                >
-                  📋
-                </button>
-              </div>
-              {selectedPin.plusCode && (
+            {selectedPin && (
+              <div style={{ marginBottom: "8px" }}>
                 <div
-                  style={{
-                    display: "flex",
-                    alignItems: "center",
-                    gap: "6px",
-                    marginTop: "2px",
-                  }}
+                  style={{ display: "flex", alignItems: "center", gap: "6px" }}
                 >
                   <div
                     style={{
@@ -689,13 +1452,15 @@ export const MapComponent: React.FC<MapComponentProps> = ({
                       fontSize: "11px",
                     }}
                   >
-                    {selectedPin.plusCode}
+                    {selectedPin.lat.toFixed(6)}, {selectedPin.lng.toFixed(6)}
                   </div>
                   <button
                     onClick={() => {
-                      navigator.clipboard.writeText(selectedPin.plusCode!);
+                      navigator.clipboard.writeText(
+                        `${selectedPin.lat.toFixed(6)}, ${selectedPin.lng.toFixed(6)}`
+                      );
                       if (app) {
-                        new Notice("Plus Code copied to clipboard");
+                        new Notice("Coordinates copied to clipboard");
                       }
                     }}
                     style={{
@@ -719,22 +1484,234 @@ export const MapComponent: React.FC<MapComponentProps> = ({
                     onMouseLeave={(e) => {
                       e.currentTarget.style.backgroundColor = "transparent";
                     }}
-                    title="Copy Plus Code"
+                    title="Copy coordinates"
                   >
                     📋
                   </button>
                 </div>
-              )}
-            </div>
+                {selectedPin.plusCode && (
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "6px",
+                      marginTop: "2px",
+                    }}
+                  >
+                    <div
+                      style={{
+                        fontFamily: "monospace",
+                        color: "var(--text-muted)",
+                        fontSize: "11px",
+                      }}
+                    >
+                      {selectedPin.plusCode}
+                    </div>
+                    <button
+                      onClick={() => {
+                        navigator.clipboard.writeText(selectedPin.plusCode!);
+                        if (app) {
+                          new Notice("Plus Code copied to clipboard");
+                        }
+                      }}
+                      style={{
+                        width: "14px",
+                        height: "14px",
+                        backgroundColor: "transparent",
+                        border: "1px solid var(--background-modifier-border)",
+                        borderRadius: "2px",
+                        cursor: "pointer",
+                        fontSize: "8px",
+                        display: "flex",
+                        alignItems: "center",
+                        justifyContent: "center",
+                        transition: "all 0.2s",
+                        padding: "0",
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor =
+                          "var(--background-modifier-hover)";
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor = "transparent";
+                      }}
+                      title="Copy Plus Code"
+                    >
+                      📋
+                    </button>
+                  </div>
+                )}
+                {selectedNotation && (
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "6px",
+                      marginTop: "2px",
+                    }}
+                  >
+                    <div
+                      style={{
+                        fontFamily: "monospace",
+                        color: "var(--text-muted)",
+                        fontSize: "11px",
+                        wordBreak: "break-all", // Map links can be long
+                      }}
+                    >
+                      {selectedNotation.text}
+                    </div>
+                    <button
+                      onClick={() => {
+                        navigator.clipboard.writeText(selectedNotation.text);
+                        if (app) {
+                          new Notice(
+                            "Original coordinates copied to clipboard"
+                          );
+                        }
+                      }}
+                      style={{
+                        width: "14px",
+                        height: "14px",
+                        backgroundColor: "transparent",
+                        border: "1px solid var(--background-modifier-border)",
+                        borderRadius: "2px",
+                        cursor: "pointer",
+                        fontSize: "8px",
+                        display: "flex",
+                        alignItems: "center",
+                        justifyContent: "center",
+                        transition: "all 0.2s",
+                        padding: "0",
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor =
+                          "var(--background-modifier-hover)";
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor = "transparent";
+                      }}
+                      title="Copy original coordinates"
+                    >
+                      📋
+                    </button>
+                  </div>
+                )}
+                {selectedPin.radius && (
+                  <div
+                    style={{
+                      fontFamily: "monospace",
+                      color: "var(--text-muted)",
+                      fontSize: "11px",
+                      marginTop: "2px",
+                    }}
+                  >
+                    Radius {formatDistance(selectedPin.radius)}
+                  </div>
+                )}
+              </div>
+            )}
 
-            {selectedPin.description && (
-              <div style={{ marginBottom: "8px" }}>
-                <div style={{ color: "var(--text-muted)", fontSize: "12px" }}>
-                  {selectedPin.description}
+            {selectedPolyline && (
+              <div
+                style={{
+                  marginBottom: "8px",
+                  fontFamily: "monospace",
+                  color: "var(--text-muted)",
+                  fontSize: "11px",
+                }}
+              >
+                {selectedPolyline.points.length} points ·{" "}
+                {formatDistance(getPolylineLength(selectedPolyline))}
+              </div>
+            )}
+
+            {selectedPolygon && (
+              <div
+                style={{
+                  marginBottom: "8px",
+                  fontFamily: "monospace",
+                  color: "var(--text-muted)",
+                  fontSize: "11px",
+                }}
+              >
+                {selectedPolygon.points.length} corners ·{" "}
+                {formatArea(getPolygonArea(selectedPolygon))}
+              </div>
+            )}
+
+            {isEditing &&
+              selectedPin &&
+              onEditPin &&
+              (isEditablePin(selectedPin) ? (
+                <PinEditor
+                  key={JSON.stringify(selectedPin)}
+                  pin={getBlockPin(selectedPin)}
+                  groups={groups}
+                  onChange={(changes) =>
+                    olMapRef.current &&
+                    onEditPin(
+                      {
+                        type: "update",
+                        pin: getBlockPin(selectedPin),
+                        changes,
+                      },
+                      getViewState(olMapRef.current)
+                    )
+                  }
+                />
+              ) : (
+                <div
+                  style={{
+                    marginBottom: "8px",
+                    color: "var(--text-muted)",
+                    fontSize: "11px",
+                  }}
+                >
+                  Pins from notes and files are edited where they come from
                 </div>
+              ))}
+
+            {selectedItem.description && (
+              <div style={{ marginBottom: "8px" }}>
+                <MarkdownDescription
+                  markdown={selectedItem.description}
+                  app={app}
+                  sourcePath={sourcePath}
+                />
               </div>
             )}
 
+            {selectedProperties && (
+              <table
+                style={{
+                  width: "100%",
+                  marginBottom: "8px",
+                  borderCollapse: "collapse",
+                  fontSize: "11px",
+                }}
+              >
+                <tbody>
+                  {Object.keys(selectedProperties).map((key) => (
+                    <tr key={key}>
+                      <td
+                        style={{
+                          color: "var(--text-muted)",
+                          padding: "2px 8px 2px 0",
+                          verticalAlign: "top",
+                          whiteSpace: "nowrap",
+                        }}
+                      >
+                        {key}
+                      </td>
+                      <td style={{ padding: "2px 0", wordBreak: "break-word" }}>
+                        {formatPropertyValue(selectedProperties[key])}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
             <div
               style={{
                 display: "flex",
@@ -747,26 +1724,35 @@ export const MapComponent: React.FC<MapComponentProps> = ({
               <div
                 style={{ display: "flex", gap: "8px", alignItems: "center" }}
               >
-                {selectedPin.color && (
+                {getItemColor(selectedItem) && (
                   <div
                     style={{
                       width: "12px",
                       height: "12px",
                       borderRadius: "50%",
                       backgroundColor:
-                        getColorValue(selectedPin.color) || defaultPinColor,
+                        getColorValue(getItemColor(selectedItem)) ||
+                        defaultPinColor,
                       border: "1px solid var(--background-modifier-border)",
                     }}
                   />
                 )}
 
-                {selectedPin.icon && (
-                  <span style={{ fontSize: "12px" }}>
-                    {getIconText(selectedPin.icon)}
-                  </span>
+                {selectedIconUrl ? (
+                  <img
+                    src={selectedIconUrl}
+                    alt=""
+                    style={{ width: "14px", height: "14px" }}
+                  />
+                ) : (
+                  selectedPin?.icon && (
+                    <span style={{ fontSize: "12px" }}>
+                      {getIconText(selectedPin.icon)}
+                    </span>
+                  )
                 )}
 
-                {selectedPin.group && (
+                {selectedItem.group && (
                   <div
                     style={{
                       backgroundColor: "var(--background-modifier-hover)",
@@ -776,52 +1762,149 @@ export const MapComponent: React.FC<MapComponentProps> = ({
                       color: "var(--text-muted)",
                     }}
                   >
-                    {selectedPin.group}
+                    {selectedItem.group}
                   </div>
                 )}
               </div>
 
               {/* Google Maps button - in normal flow */}
-              <button
-                onClick={() => {
-                  const url = `https://www.google.com/maps?q=${selectedPin.lat},${selectedPin.lng}`;
-                  window.open(url, "_blank");
-                }}
+              {selectedPin && (
+                <button
+                  onClick={() => {
+                    const url = `https://www.google.com/maps?q=${selectedPin.lat},${selectedPin.lng}`;
+                    window.open(url, "_blank");
+                  }}
+                  style={{
+                    width: "20px",
+                    height: "20px",
+                    backgroundColor: "var(--background-modifier-hover)",
+                    border: "1px solid var(--background-modifier-border)",
+                    borderRadius: "3px",
+                    cursor: "pointer",
+                    fontSize: "12px",
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    transition: "all 0.2s",
+                    padding: "0",
+                    flexShrink: 0,
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      "var(--interactive-accent)";
+                    e.currentTarget.style.color = "white";
+                    e.currentTarget.style.borderColor =
+                      "var(--interactive-accent)";
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      "var(--background-modifier-hover)";
+                    e.currentTarget.style.color = "var(--text-normal)";
+                    e.currentTarget.style.borderColor =
+                      "var(--background-modifier-border)";
+                  }}
+                  title="Open in Google Maps"
+                >
+                  🌍
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      {clusterPins && !selectedItem && (
+        <div
+          style={{
+            position: "absolute",
+            top: "12px",
+            left: "12px",
+            backgroundColor: "var(--background-primary)",
+            border: "1px solid var(--background-modifier-border)",
+            borderRadius: "8px",
+            padding: "16px",
+            minWidth: "220px",
+            maxWidth: "300px",
+            maxHeight: "60%",
+            overflowY: "auto",
+            boxShadow: "0 4px 16px rgba(0, 0, 0, 0.15)",
+            zIndex: 1000,
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              marginBottom: "8px",
+            }}
+          >
+            <h3
+              style={{
+                margin: 0,
+                fontSize: "14px",
+                fontWeight: "600",
+                color: "var(--text-normal)",
+              }}
+            >
+              {clusterPins.length} pins here
+            </h3>
+            <button
+              onClick={() => setClusterPins(null)}
+              style={{
+                background: "none",
+                border: "none",
+                cursor: "pointer",
+                fontSize: "16px",
+                color: "var(--text-muted)",
+                padding: "0",
+                lineHeight: "1",
+              }}
+              title="Close list"
+            >
+              ×
+            </button>
+          </div>
+          {clusterPins.map((pin, index) => (
+            <button
+              key={index}
+              onClick={() => {
+                setClusterPins(null);
+                setSelectedItem(pin);
+              }}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "6px",
+                width: "100%",
+                padding: "4px 6px",
+                background: "none",
+                border: "none",
+                borderRadius: "3px",
+                cursor: "pointer",
+                color: "var(--text-normal)",
+                fontSize: "12px",
+                textAlign: "left",
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor =
+                  "var(--background-modifier-hover)";
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = "transparent";
+              }}
+            >
+              <span
                 style={{
-                  width: "20px",
-                  height: "20px",
-                  backgroundColor: "var(--background-modifier-hover)",
-                  border: "1px solid var(--background-modifier-border)",
-                  borderRadius: "3px",
-                  cursor: "pointer",
-                  fontSize: "12px",
-                  display: "flex",
-                  alignItems: "center",
-                  justifyContent: "center",
-                  transition: "all 0.2s",
-                  padding: "0",
+                  width: "8px",
+                  height: "8px",
+                  borderRadius: "50%",
                   flexShrink: 0,
+                  backgroundColor: getColorValue(pin.color) || defaultPinColor,
                 }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor =
-                    "var(--interactive-accent)";
-                  e.currentTarget.style.color = "white";
-                  e.currentTarget.style.borderColor =
-                    "var(--interactive-accent)";
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor =
-                    "var(--background-modifier-hover)";
-                  e.currentTarget.style.color = "var(--text-normal)";
-                  e.currentTarget.style.borderColor =
-                    "var(--background-modifier-border)";
-                }}
-                title="Open in Google Maps"
-              >
-                🌍
-              </button>
-            </div>
-          </div>
+              />
+              {pin.label || `${pin.lat.toFixed(6)}, ${pin.lng.toFixed(6)}`}
+            </button>
+          ))}
         </div>
       )}
       <div
@@ -829,7 +1912,7 @@ export const MapComponent: React.FC<MapComponentProps> = ({
           position: "absolute",
           bottom: "12px",
           right: "12px",
-          display: "flex",
+          display: compact ? "none" : "flex",
           gap: "8px",
           zIndex: 1000,
         }}
@@ -851,6 +1934,57 @@ export const MapComponent: React.FC<MapComponentProps> = ({
           />
         )}
 
+        {/* Basemap and overlay switcher */}
+        {blockLayers.basemaps.length + blockLayers.overlays.length > 1 && (
+          <LayerDropdown
+            basemaps={blockLayers.basemaps}
+            overlays={blockLayers.overlays}
+            basemap={basemap}
+            shownOverlays={shownOverlays}
+            onSelectBasemap={setChosenBasemap}
+            onToggleOverlay={(name) => {
+              const newShownOverlays = new Set(shownOverlays);
+              if (shownOverlays.has(name)) {
+                newShownOverlays.delete(name);
+              } else {
+                newShownOverlays.add(name);
+              }
+              setShownOverlays(newShownOverlays);
+            }}
+          />
+        )}
+
+        {/* Edit mode button */}
+        {onEditPin && (
+          <button
+            onClick={handleToggleEditing}
+            style={{
+              width: "28px",
+              height: "28px",
+              backgroundColor: isEditing
+                ? "var(--interactive-accent)"
+                : "rgba(0, 0, 0, 0.7)",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+              fontSize: "14px",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              backdropFilter: "blur(4px)",
+              transition: "background-color 0.2s",
+              color: "white",
+            }}
+            title={
+              isEditing
+                ? "Stop editing"
+                : "Edit pins: click the map to add one, drag a pin to move it"
+            }
+          >
+            ✏️
+          </button>
+        )}
+
         {/* Modal button */}
         {onOpenModal && (
           <button
@@ -914,64 +2048,446 @@ export const MapComponent: React.FC<MapComponentProps> = ({
   );
 };
 
-// Helper function to convert color names/hex to valid color values
-function getColorValue(color?: string): string | undefined {
-  if (!color) return undefined;
-
-  // Color name mapping
-  const colorMap: Record<string, string> = {
-    red: "#ff4444",
-    blue: "#4444ff",
-    green: "#44ff44",
-    yellow: "#ffff44",
-    orange: "#ff8844",
-    purple: "#8844ff",
-    pink: "#ff44ff",
-    brown: "#8b4513",
-    gray: "#888888",
-    black: "#000000",
-    white: "#ffffff",
+// Width in pixels of image icons that neither the pin nor the block sizes
+const DEFAULT_ICON_SIZE = 32;
+
+// An image icon found in the vault, as it is drawn
+interface ImageIcon {
+  url: string;
+  size: number; // Width in pixels
+  anchor: [number, number]; // Point on the location, as fractions of the size
+}
+
+// Extra pixels around a feature that still count as a hit, so thin lines are clickable
+const FEATURE_HIT_TOLERANCE = 4;
+
+function isMapPin(item: MapItem): item is MapPin {
+  return "lat" in item;
+}
+
+// Helper function to tell pins written in the block, which edit mode can change,
+// from pins read from notes and files
+function isEditablePin(pin?: MapPin): boolean {
+  return pin?.line !== undefined && !pin.notePath;
+}
+
+// Helper function to read where the map is looking
+function getViewState(map: Map): MapViewState {
+  const view = map.getView();
+  const [lng, lat] = toLonLat(view.getCenter() ?? [0, 0]);
+  return { center: { lat, lng }, zoom: view.getZoom() ?? 0 };
+}
+
+// Helper function to read the pin, line or polygon stored on a map feature
+function getFeatureItem(feature: FeatureLike): MapItem | null {
+  // A cluster of one stands for its pin; a bigger one for no single item
+  const clustered = getClusteredFeatures(feature);
+  if (clustered.length > 1) return null;
+
+  return (
+    (clustered[0].get("pin") as MapPin | undefined) ||
+    (feature.get("polyline") as MapPolyline | undefined) ||
+    (feature.get("polygon") as MapPolygon | undefined) ||
+    null
+  );
+}
+
+// Helper function to get the pin features a cluster stands for, or the feature
+// itself when pins are not clustered
+function getClusteredFeatures(feature: FeatureLike): FeatureLike[] {
+  return (feature.get("features") as FeatureLike[] | undefined) || [feature];
+}
+
+// Helper function to drop items whose group has been toggled off
+function filterVisible<T extends { group?: string }>(
+  items: T[],
+  hiddenGroups: Set<string>
+): T[] {
+  return items.filter((item) => !item.group || !hiddenGroups.has(item.group));
+}
+
+// Helper function to collect every point that should fit in the initial view
+function getBoundsPoints(
+  pins: MapPin[],
+  shapes: { points: { lat: number; lng: number }[] }[]
+): MapPin[] {
+  const points: MapPin[] = [...pins];
+  for (const shape of shapes) {
+    for (const point of shape.points) {
+      points.push(point);
+    }
+  }
+  return points;
+}
+
+// Helper function to measure the map element, falling back to 400 by 400 before it is laid out
+function getContainerSize(element: HTMLElement | null | undefined): {
+  width: number;
+  height: number;
+} {
+  return {
+    width: element?.clientWidth || 400,
+    height: element?.clientHeight || 400,
   };
+}
+
+// Helper function to let the block's bounds, center and zoom settings override the fitted view
+function applyConfigView(
+  view: { center: [number, number]; zoom: number },
+  mapConfig: MapConfig | undefined,
+  containerWidth: number,
+  containerHeight: number
+): { center: [number, number]; zoom: number } {
+  if (!mapConfig) return view;
+
+  const { center, zoom } = mapConfig.bounds
+    ? calculateBounds(mapConfig.bounds, containerWidth, containerHeight)
+    : view;
 
-  // Return mapped color or assume it's a hex value
-  return colorMap[color.toLowerCase()] || color;
-}
-
-// Helper function to convert icon names to emoji or symbols
-function getIconText(icon?: string): string | undefined {
-  if (!icon) return undefined;
-
-  // Icon mapping
-  const iconMap: Record<string, string> = {
-    star: "⭐",
-    heart: "❤️",
-    flag: "🚩",
-    pin: "📍",
-    marker: "📍",
-    home: "🏠",
-    office: "🏢",
-    school: "🏫",
-    hospital: "🏥",
-    restaurant: "🍽️",
-    cafe: "☕",
-    hotel: "🏨",
-    park: "🌳",
-    beach: "🏖️",
-    mountain: "⛰️",
-    airport: "✈️",
-    train: "🚂",
-    bus: "🚌",
-    car: "🚗",
-    bike: "🚲",
-    walk: "🚶",
-    shopping: "🛍️",
-    museum: "🏛️",
-    church: "⛪",
-    warning: "⚠️",
-    info: "ℹ️",
-    check: "✅",
-    cross: "❌",
+  return {
+    center: mapConfig.center
+      ? [mapConfig.center.lng, mapConfig.center.lat]
+      : center,
+    zoom: mapConfig.zoom ?? zoom,
   };
+}
+
+// Helper function to decide whether the initial view should be fitted to the points
+function shouldFitBounds(points: MapPin[]): boolean {
+  return points.length > 1 || points.some((point) => point.radius);
+}
+
+// Helper function to pick the color swatch shown in the details panel
+function getItemColor(item: MapItem): string | undefined {
+  if ("fill" in item || "stroke" in item) {
+    const polygon = item as MapPolygon;
+    return polygon.fill || polygon.stroke;
+  }
+  return (item as MapPin | MapPolyline).color;
+}
+
+// Helper function to convert named dash styles to OpenLayers line dash arrays
+function getLineDashValue(dash?: LineDash): number[] | undefined {
+  if (!dash || dash === "solid") return undefined;
+  if (dash === "dashed") return [12, 8];
+  if (dash === "dotted") return [2, 6];
+  return dash;
+}
+
+// Helper function to build the style for a polyline
+function getPolylineStyle(
+  polyline: MapPolyline,
+  options: { isSelected: boolean; showLabel: boolean; defaultColor: string }
+): Style[] {
+  const lineColor = getColorValue(polyline.color) || options.defaultColor;
+  const lineWidth = polyline.width || 4;
+  const styles = [];
+
+  // White casing underneath keeps lines readable on busy tiles
+  styles.push(
+    new Style({
+      stroke: new Stroke({
+        color: options.isSelected ? "#ffd700" : "#ffffff",
+        width: lineWidth + (options.isSelected ? 6 : 3),
+      }),
+    })
+  );
+
+  styles.push(
+    new Style({
+      stroke: new Stroke({
+        color: lineColor,
+        width: lineWidth,
+        lineDash: getLineDashValue(polyline.dash),
+      }),
+    })
+  );
+
+  if (polyline.label && options.showLabel) {
+    styles.push(
+      new Style({
+        text: new Text({
+          text: polyline.label,
+          placement: "line",
+          fill: new Fill({ color: "#000000" }),
+          stroke: new Stroke({ color: "#ffffff", width: 3 }),
+          font: "12px sans-serif",
+        }),
+      })
+    );
+  }
+
+  return styles;
+}
+
+// Helper function to measure a polyline along the earth's surface, in meters
+function getPolylineLength(polyline: MapPolyline): number {
+  return getLength(
+    new LineString(
+      polyline.points.map((point) => fromLonLat([point.lng, point.lat]))
+    )
+  );
+}
+
+// Helper function to show a pin property, with web addresses as links
+function formatPropertyValue(
+  value: string | number | boolean
+): React.ReactNode {
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (typeof value === "string" && /^https?:\/\//i.test(value)) {
+    return (
+      <a href={value} target="_blank" rel="noopener noreferrer">
+        {value}
+      </a>
+    );
+  }
+  return String(value);
+}
+
+// Helper function to format a distance in meters for display
+function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${(meters / 1000).toFixed(1)} km`;
+}
+
+// Helper function to build the style for a polygon
+function getPolygonStyle(
+  polygon: MapPolygon,
+  options: { isSelected: boolean; showLabel: boolean; defaultColor: string }
+): Style[] {
+  const fillColor =
+    getColorValue(polygon.fill) ||
+    getColorValue(polygon.stroke) ||
+    options.defaultColor;
+  const strokeColor = getColorValue(polygon.stroke) || fillColor;
+
+  // Apply opacity to the fill only, so the outline stays crisp
+  const [red, green, blue] = getRgb(fillColor, options.defaultColor);
+  const opacity = polygon.opacity ?? 0.3;
+
+  const styles = [
+    new Style({
+      fill: new Fill({ color: [red, green, blue, opacity] }),
+      stroke: new Stroke({
+        color: options.isSelected ? "#ffd700" : strokeColor,
+        width: (polygon.width ?? 2) + (options.isSelected ? 2 : 0),
+      }),
+    }),
+  ];
+
+  if (polygon.label && options.showLabel) {
+    styles.push(
+      new Style({
+        text: new Text({
+          text: polygon.label,
+          fill: new Fill({ color: "#000000" }),
+          stroke: new Stroke({ color: "#ffffff", width: 3 }),
+          font: "12px sans-serif",
+          overflow: true,
+        }),
+      })
+    );
+  }
+
+  return styles;
+}
+
+// Helper function to create the hidden tile layer for a basemap or overlay,
+// named so it can be shown when chosen; without a max zoom it stops at the
+// usual one rather than requesting tiles the server does not have
+function createTileLayer(
+  layer: NamedLayer,
+  isOverlay: boolean
+): TileLayer<XYZ> {
+  const tileLayer = new TileLayer({
+    source: new XYZ({
+      url: layer.url,
+      maxZoom: layer.maxZoom ?? DEFAULT_MAX_ZOOM,
+    }),
+    visible: false,
+  });
+  tileLayer.set("name", layer.name);
+  tileLayer.set("overlay", isOverlay);
+  return tileLayer;
+}
+
+// Helper function to draw an image icon, a little bigger when selected
+function getImageIconStyle(icon: ImageIcon, isSelected: boolean): Style {
+  return new Style({
+    image: new Icon({
+      src: icon.url,
+      width: isSelected ? Math.round(icon.size * 1.25) : icon.size,
+      anchor: icon.anchor,
+    }),
+  });
+}
+
+// Helper function to place a label just above an image icon, taking square
+// icons as the guess for their height
+function getLabelOffset(icon: ImageIcon): number {
+  return -Math.round(icon.size * icon.anchor[1]) - 12;
+}
+
+// Helper function to draw a cluster as a circle with its pin count, in the
+// pins' color when they share one
+function getClusterStyle(
+  features: FeatureLike[],
+  options: { isSelected: boolean; pinSize: number; defaultColor: string }
+): Style {
+  const colors = features.map(
+    (feature) => (feature.get("pin") as MapPin).color
+  );
+  const color =
+    (colors.every((color) => color === colors[0]) &&
+      getColorValue(colors[0])) ||
+    options.defaultColor;
+
+  // Bigger clusters grow slowly, so a few hundred pins still fit the view
+  const growth = Math.min(12, Math.round(Math.log2(features.length) * 2));
+  const radius = options.pinSize + 4 + growth;
+
+  return new Style({
+    image: new Circle({
+      radius: options.isSelected ? radius + 3 : radius,
+      fill: new Fill({ color }),
+      stroke: new Stroke({
+        color: options.isSelected ? "#ffd700" : "#ffffff",
+        width: options.isSelected ? 4 : 3,
+      }),
+    }),
+    text: new Text({
+      text: String(features.length),
+      fill: new Fill({ color: "#ffffff" }),
+      font: "bold 12px sans-serif",
+      textAlign: "center",
+    }),
+  });
+}
+
+// Helper function to draw a Lucide icon pin: a circle in the theme's background
+// ringed in the pin color, with the icon on it in the tint color
+function getLucideIconStyles(
+  id: string,
+  options: {
+    isSelected: boolean;
+    pinSize: number;
+    pinColor: string;
+    tint: string;
+    background: string;
+  }
+): Style[] {
+  const radius = options.isSelected ? options.pinSize + 3 : options.pinSize;
+  const styles = [
+    new Style({
+      image: new Circle({
+        radius,
+        fill: new Fill({ color: options.background }),
+        stroke: new Stroke({
+          color: options.isSelected ? "#ffd700" : options.pinColor,
+          width: options.isSelected ? 4 : 3,
+        }),
+      }),
+    }),
+  ];
+
+  const url = getLucideIconUrl(id, options.tint);
+  if (url) {
+    styles.push(
+      new Style({
+        image: new Icon({
+          src: url,
+          width: Math.max(8, Math.round(radius * 1.2)),
+        }),
+      })
+    );
+  }
+  return styles;
+}
+
+// Lucide icons as SVG image URLs, by icon id and color
+const lucideIconUrls: Record<string, string> = {};
+
+// Helper function to turn a Lucide icon that Obsidian ships into an SVG image
+// URL stroked in a color, which the map draws like any image icon
+// Returns an empty string when Obsidian does not have the icon.
+function getLucideIconUrl(id: string, color: string): string {
+  const key = `${id}|${color}`;
+  if (key in lucideIconUrls) return lucideIconUrls[key];
+
+  const svg = getIcon(id);
+  let url = "";
+  if (svg) {
+    // An SVG drawn as an image has no page color, so set the one it strokes with
+    svg.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+    svg.setAttribute("width", "24");
+    svg.setAttribute("height", "24");
+    svg.setAttribute("stroke", color);
+    svg.setAttribute("color", color);
+    url =
+      "data:image/svg+xml;charset=utf-8," +
+      encodeURIComponent(new XMLSerializer().serializeToString(svg));
+  }
+
+  lucideIconUrls[key] = url;
+  return url;
+}
+
+// Helper function to read the theme's background and text colors
+function getThemeColors(): { background: string; text: string } {
+  const style = getComputedStyle(document.body);
+  return {
+    background:
+      style.getPropertyValue("--background-primary").trim() || "#ffffff",
+    text: style.getPropertyValue("--text-normal").trim() || "#000000",
+  };
+}
+
+// Helper function to read a color as red, green and blue, falling back when
+// OpenLayers cannot parse it, as it throws while the map is being drawn
+function getRgb(color: string, fallback: string): [number, number, number] {
+  for (const candidate of [color, fallback]) {
+    try {
+      const [red, green, blue] = asArray(candidate);
+      return [red, green, blue];
+    } catch (error) {
+      // Try the fallback
+    }
+  }
+  return [255, 68, 68]; // The default pin color, #ff4444
+}
+
+// Helper function to build the style for the radius circle around a pin
+function getRadiusStyle(
+  pin: MapPin,
+  options: { isSelected: boolean; defaultColor: string }
+): Style {
+  const pinColor = getColorValue(pin.color) || options.defaultColor;
+  const [red, green, blue] = getRgb(pinColor, options.defaultColor);
+
+  return new Style({
+    fill: new Fill({ color: [red, green, blue, 0.12] }),
+    stroke: new Stroke({
+      color: options.isSelected ? "#ffd700" : pinColor,
+      width: options.isSelected ? 3 : 2,
+      lineDash: [8, 6],
+    }),
+  });
+}
+
+// Helper function to measure a polygon along the earth's surface, in square meters
+function getPolygonArea(polygon: MapPolygon): number {
+  return getArea(
+    new Polygon([
+      polygon.points.map((point) => fromLonLat([point.lng, point.lat])),
+    ])
+  );
+}
 
-  return iconMap[icon.toLowerCase()];
+// Helper function to format an area in square meters for display
+function formatArea(squareMeters: number): string {
+  if (squareMeters < 10000) return `${Math.round(squareMeters)} m²`;
+  if (squareMeters < 1000000) return `${(squareMeters / 10000).toFixed(1)} ha`;
+  return `${(squareMeters / 1000000).toFixed(1)} km²`;
 }
@@ -0,0 +1,129 @@
+import { ItemView, debounce, type WorkspaceLeaf } from "obsidian";
+import React from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { formatDiagnostic } from "./diagnostics";
+import { MapComponent } from "./MapComponent";
+import { collectNotePins, LOCATION_PROPERTY } from "./noteLocations";
+import type { ParsedMapData } from "./parseMapSyntax";
+import type MapPlugin from "./main";
+
+export const VIEW_TYPE_NOTE_MAP = "map-plugin-note-map";
+
+/**
+ * A view that plots every note with a location property on one map
+ * The pins are rebuilt from the metadata cache whenever notes change, and the
+ * map is re-rendered only when they differ.
+ */
+export class NoteMapView extends ItemView {
+  private plugin: MapPlugin;
+  private root: Root | null = null;
+  private errorEl: HTMLElement;
+  private mapContainer: HTMLElement;
+  private mapData: ParsedMapData | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: MapPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return VIEW_TYPE_NOTE_MAP;
+  }
+
+  getDisplayText() {
+    return "Note map";
+  }
+
+  getIcon() {
+    return "map-pin";
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.style.display = "flex";
+    contentEl.style.flexDirection = "column";
+
+    this.errorEl = contentEl.createEl("div");
+    this.errorEl.style.color = "var(--text-error)";
+    this.errorEl.style.fontSize = "14px";
+    this.errorEl.style.fontFamily = "var(--font-monospace)";
+    this.errorEl.style.flexShrink = "0";
+
+    this.mapContainer = contentEl.createEl("div");
+    this.mapContainer.style.width = "100%";
+    this.mapContainer.style.flex = "1";
+    this.mapContainer.style.minHeight = "0"; // Important for flex child
+    this.mapContainer.style.position = "relative";
+
+    this.root = createRoot(this.mapContainer);
+    this.refresh();
+
+    // Notes are edited a keystroke at a time, so wait for a pause before re-rendering
+    const refresh = debounce(() => this.refresh(), 500, true);
+    this.registerEvent(this.app.metadataCache.on("changed", refresh));
+    this.registerEvent(this.app.vault.on("delete", refresh));
+    this.registerEvent(this.app.vault.on("rename", refresh));
+  }
+
+  async onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+
+  /**
+   * Rebuild the pins from the metadata cache and render them if they changed
+   * Re-rendering rebuilds the map and fits it to the pins again, so an edit
+   * that does not move a pin keeps the view where it was panned.
+   */
+  refresh() {
+    const mapData = collectNotePins(this.plugin.getLocatedNotes());
+    if (JSON.stringify(mapData) !== JSON.stringify(this.mapData)) {
+      this.mapData = mapData;
+      this.render();
+    }
+  }
+
+  /**
+   * Render the map with the current pins and settings
+   */
+  render() {
+    const { root, mapData } = this;
+    if (!root || !mapData) return;
+
+    this.errorEl.empty();
+    mapData.diagnostics.forEach((diagnostic) => {
+      const errorLine = this.errorEl.createEl("div");
+      errorLine.textContent = "⚠ " + formatDiagnostic(diagnostic);
+      errorLine.style.marginBottom = "4px";
+    });
+
+    if (mapData.pins.length === 0) {
+      root.render(
+        React.createElement(
+          "div",
+          { style: { padding: "16px", color: "var(--text-muted)" } },
+          `No notes with a "${LOCATION_PROPERTY}" property found. Add one like: ${LOCATION_PROPERTY}: [lat, lng]`
+        )
+      );
+      return;
+    }
+
+    const { settings } = this.plugin;
+    root.render(
+      React.createElement(MapComponent, {
+        pins: mapData.pins,
+        initialCenter: [mapData.pins[0].lng, mapData.pins[0].lat],
+        initialZoom: settings.defaultZoom,
+        pinSize: settings.pinSize,
+        defaultPinColor: settings.defaultPinColor,
+        basemaps: settings.basemaps,
+        overlays: settings.overlays,
+        height: "100%",
+        app: this.app,
+      })
+    );
+  }
+}
@@ -0,0 +1,278 @@
+import { MapSyntaxError } from "./diagnostics";
+import { readIconAnchor } from "./pinIcons";
+import type {
+  LineDash,
+  MapConfig,
+  MapPin,
+  MapPolygon,
+  MapPolyline,
+} from "./parseMapSyntax";
+
+/**
+ * Apply JSON attributes to a pin
+ * Unknown keys and values of the wrong type are ignored.
+ * Example: {"color": "red", "icon": "star", "group": "sights", "radius": "2km"}
+ */
+export function applyPinAttributes<T extends Omit<MapPin, "lat" | "lng">>(
+  pin: T,
+  attributes: Record<string, unknown>
+): T {
+  if (attributes.color && typeof attributes.color === "string") {
+    pin.color = attributes.color;
+  }
+  if (attributes.icon && typeof attributes.icon === "string") {
+    pin.icon = attributes.icon;
+  }
+  if (attributes.iconSize != null) {
+    pin.iconSize = parseIconSize(attributes.iconSize);
+  }
+  if (attributes.iconAnchor != null) {
+    pin.iconAnchor = parseIconAnchor(attributes.iconAnchor);
+  }
+  if (attributes.group && typeof attributes.group === "string") {
+    pin.group = attributes.group;
+  }
+  if (attributes.style && typeof attributes.style === "string") {
+    pin.style = attributes.style;
+  }
+  if (attributes.description && typeof attributes.description === "string") {
+    pin.description = attributes.description;
+  }
+  if (attributes.link && typeof attributes.link === "string") {
+    pin.link = attributes.link;
+  }
+  if (attributes.radius != null) {
+    pin.radius = parseRadius(attributes.radius);
+  }
+  if (attributes.weight != null) {
+    pin.weight = parseWeight(attributes.weight);
+  }
+
+  return pin;
+}
+
+/**
+ * Fill in a pin's color, icon and group from its named style, then its color
+ * and icon from its group's defaults. The pin's own attributes come first.
+ * Returns the pin itself when the config has nothing for it.
+ * Example: {"style": "museum"} with styles: { museum: { color: blue, icon: museum } }
+ */
+export function applyPinStyle(pin: MapPin, config: MapConfig = {}): MapPin {
+  const style = (pin.style && config.styles?.[pin.style]) || {};
+  const group = pin.group || style.group;
+  const defaults = (group && config.groups?.[group]) || {};
+  if (Object.keys(style).length + Object.keys(defaults).length === 0) {
+    return pin;
+  }
+
+  return {
+    ...pin,
+    color: pin.color || style.color || defaults.color,
+    icon: pin.icon || style.icon || defaults.icon,
+    group,
+  };
+}
+
+// Attributes that applyPinAttributes reads; any others are kept as properties
+const PIN_ATTRIBUTES = [
+  "color",
+  "icon",
+  "iconSize",
+  "iconAnchor",
+  "group",
+  "style",
+  "description",
+  "link",
+  "radius",
+  "weight",
+];
+
+/**
+ * Keep the JSON attributes a pin does not use itself in its properties
+ * Only text, numbers and true or false are kept.
+ * Example: {"color": "red", "rating": 4.5, "open": true} -> {"rating": 4.5, "open": true}
+ */
+export function applyPinProperties<T extends Omit<MapPin, "lat" | "lng">>(
+  pin: T,
+  attributes: Record<string, unknown>
+): T {
+  for (const key of Object.keys(attributes)) {
+    const value = attributes[key];
+    if (
+      !PIN_ATTRIBUTES.includes(key) &&
+      (typeof value === "string" ||
+        typeof value === "number" ||
+        typeof value === "boolean")
+    ) {
+      pin.properties = { ...pin.properties, [key]: value };
+    }
+  }
+
+  return pin;
+}
+
+/**
+ * Apply JSON attributes to a polyline
+ * Example: {"color": "blue", "width": 5, "dash": "dashed", "group": "routes"}
+ */
+export function applyPolylineAttributes(
+  polyline: MapPolyline,
+  attributes: Record<string, unknown>
+): MapPolyline {
+  if (attributes.color && typeof attributes.color === "string") {
+    polyline.color = attributes.color;
+  }
+  if (typeof attributes.width === "number" && attributes.width > 0) {
+    polyline.width = attributes.width;
+  }
+  const dash = parseLineDash(attributes.dash);
+  if (dash) {
+    polyline.dash = dash;
+  }
+  if (attributes.group && typeof attributes.group === "string") {
+    polyline.group = attributes.group;
+  }
+  if (attributes.description && typeof attributes.description === "string") {
+    polyline.description = attributes.description;
+  }
+  if (attributes.link && typeof attributes.link === "string") {
+    polyline.link = attributes.link;
+  }
+
+  return polyline;
+}
+
+/**
+ * Apply JSON attributes to a polygon
+ * Example: {"fill": "green", "opacity": 0.4, "stroke": "#225522", "width": 2}
+ */
+export function applyPolygonAttributes(
+  polygon: MapPolygon,
+  attributes: Record<string, unknown>
+): MapPolygon {
+  if (attributes.fill && typeof attributes.fill === "string") {
+    polygon.fill = attributes.fill;
+  }
+  if (
+    typeof attributes.opacity === "number" &&
+    attributes.opacity >= 0 &&
+    attributes.opacity <= 1
+  ) {
+    polygon.opacity = attributes.opacity;
+  }
+  if (attributes.stroke && typeof attributes.stroke === "string") {
+    polygon.stroke = attributes.stroke;
+  }
+  if (typeof attributes.width === "number" && attributes.width >= 0) {
+    polygon.width = attributes.width;
+  }
+  if (attributes.group && typeof attributes.group === "string") {
+    polygon.group = attributes.group;
+  }
+  if (attributes.description && typeof attributes.description === "string") {
+    polygon.description = attributes.description;
+  }
+  if (attributes.link && typeof attributes.link === "string") {
+    polygon.link = attributes.link;
+  }
+
+  return polygon;
+}
+
+/**
+ * Parse a line dash attribute: a named style or an explicit dash pattern
+ * Example: "dashed" or [12, 4, 2, 4]
+ */
+function parseLineDash(dash: unknown): LineDash | undefined {
+  if (dash === "solid" || dash === "dashed" || dash === "dotted") {
+    return dash;
+  }
+
+  if (
+    Array.isArray(dash) &&
+    dash.length > 0 &&
+    dash.every((segment) => typeof segment === "number" && segment >= 0)
+  ) {
+    return dash;
+  }
+
+  return undefined;
+}
+
+const METERS_PER_UNIT: Record<string, number> = {
+  m: 1,
+  km: 1000,
+  mi: 1609.344,
+  ft: 0.3048,
+};
+
+function parseIconSize(size: unknown): number {
+  if (typeof size === "number" && size > 0) {
+    return size;
+  }
+
+  throw new MapSyntaxError(
+    "invalid-icon-size",
+    `Invalid iconSize: ${JSON.stringify(size)}`,
+    { fix: 'Use a width in pixels, like {"iconSize": 32}' }
+  );
+}
+
+function parseIconAnchor(anchor: unknown): [number, number] {
+  const iconAnchor = readIconAnchor(anchor);
+  if (iconAnchor) {
+    return iconAnchor;
+  }
+
+  throw new MapSyntaxError(
+    "invalid-icon-anchor",
+    `Invalid iconAnchor: ${JSON.stringify(anchor)}`,
+    {
+      fix: "Use center, bottom, top, left, right or fractions of the icon's size, like [0.5, 1]",
+    }
+  );
+}
+
+/**
+ * Parse a heatmap weight: a number of 0 or more, like a count or a magnitude
+ * Numbers written as text, as some GeoJSON exports do, are accepted.
+ */
+function parseWeight(weight: unknown): number {
+  const value =
+    typeof weight === "string" && weight.trim() ? Number(weight) : weight;
+  if (typeof value === "number" && isFinite(value) && value >= 0) {
+    return value;
+  }
+
+  throw new MapSyntaxError(
+    "invalid-weight",
+    `Invalid weight: ${JSON.stringify(weight)}`,
+    { fix: 'Use a number of 0 or more, like {"weight": 3}' }
+  );
+}
+
+/**
+ * Parse a radius attribute into meters
+ * Accepts a plain number of meters or a distance with a unit: "500m", "2.5 km", "1mi", "800ft"
+ */
+function parseRadius(radius: unknown): number {
+  if (typeof radius === "number" && radius > 0) {
+    return radius;
+  }
+
+  if (typeof radius === "string") {
+    const radiusMatch = radius
+      .trim()
+      .match(/^(\d+(?:\.\d+)?)\s*(m|km|mi|ft)?$/i);
+    if (radiusMatch && parseFloat(radiusMatch[1]) > 0) {
+      const unit = (radiusMatch[2] || "m").toLowerCase();
+      return parseFloat(radiusMatch[1]) * METERS_PER_UNIT[unit];
+    }
+  }
+
+  throw new MapSyntaxError(
+    "invalid-radius",
+    `Invalid radius: ${JSON.stringify(radius)}`,
+    { fix: 'Use a distance like "500m", "2km" or "1mi"' }
+  );
+}
@@ -0,0 +1,126 @@
+import type { MapConfig } from "./parseMapSyntax";
+
+// A tile layer named in the plugin settings, as a basemap or an overlay
+export interface NamedLayer {
+  name: string;
+  url: string; // Tile URL template, e.g. "https://tile.openstreetmap.org/{z}/{x}/{y}.png"
+  maxZoom?: number; // Deepest zoom the server has tiles for; closer views enlarge them
+}
+
+// Deepest zoom of a layer that does not give one; most tile servers stop here
+export const DEFAULT_MAX_ZOOM = 19;
+
+export const DEFAULT_BASEMAPS: NamedLayer[] = [
+  {
+    name: "Street",
+    url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+    maxZoom: 19,
+  },
+  {
+    name: "Topo",
+    url: "https://{a-c}.tile.opentopomap.org/{z}/{x}/{y}.png",
+    maxZoom: 17,
+  },
+  {
+    name: "Humanitarian",
+    url: "https://{a-c}.tile.openstreetmap.fr/hot/{z}/{x}/{y}.png",
+    maxZoom: 19,
+  },
+];
+
+export const DEFAULT_OVERLAYS: NamedLayer[] = [
+  {
+    name: "Hiking trails",
+    url: "https://tile.waymarkedtrails.org/hiking/{z}/{x}/{y}.png",
+  },
+];
+
+// The basemap a block's mapLayerURL is offered as
+const CUSTOM_BASEMAP_NAME = "Custom";
+
+// The tile layers a block can show, and the ones it starts with
+export interface BlockLayers {
+  basemaps: NamedLayer[];
+  overlays: NamedLayer[];
+  basemap: string; // Name of the basemap shown first
+  shownOverlays: string[]; // Names of the overlays shown first
+}
+
+/**
+ * Parse a list of named tile layers from the settings, one per line:
+ * name | URL | max zoom
+ * The max zoom is optional. Blank lines and lines without a name and a URL
+ * are skipped.
+ * Example: Satellite | http://localhost:8080/tiles/{z}/{x}/{y}.jpg | 19
+ */
+export function parseLayerList(text: string): NamedLayer[] {
+  return text.split("\n").reduce<NamedLayer[]>((layers, line) => {
+    const [name, url, maxZoom] = line.split("|").map((field) => field.trim());
+    if (name && url) {
+      layers.push(
+        isNaN(parseInt(maxZoom))
+          ? { name, url }
+          : { name, url, maxZoom: parseInt(maxZoom) }
+      );
+    }
+    return layers;
+  }, []);
+}
+
+/**
+ * Write named tile layers as the lines parseLayerList reads
+ */
+export function formatLayerList(layers: NamedLayer[]): string {
+  return layers
+    .map((layer) =>
+      [layer.name, layer.url, layer.maxZoom]
+        .filter((field) => field !== undefined)
+        .join(" | ")
+    )
+    .join("\n");
+}
+
+/**
+ * Find a named tile layer, ignoring case
+ */
+export function findLayer(
+  layers: NamedLayer[],
+  name: string
+): NamedLayer | undefined {
+  const key = name.trim().toLowerCase();
+  return layers.find((layer) => layer.name.toLowerCase() === key);
+}
+
+/**
+ * Get the tile layers a block can switch between and the ones it starts with
+ * A block's mapLayerURL is offered as a "Custom" basemap and shown first;
+ * otherwise its basemap setting picks one, or the first basemap is shown.
+ * With no basemaps in the settings the street map is used. Names the settings
+ * do not have are left out.
+ */
+export function getBlockLayers(
+  basemaps: NamedLayer[],
+  overlays: NamedLayer[],
+  config: MapConfig = {}
+): BlockLayers {
+  const available = [
+    ...(config.mapLayerURL
+      ? [{ name: CUSTOM_BASEMAP_NAME, url: config.mapLayerURL }]
+      : []),
+    ...(basemaps.length > 0 ? basemaps : DEFAULT_BASEMAPS.slice(0, 1)),
+  ];
+  const basemap =
+    (!config.mapLayerURL &&
+      config.basemap &&
+      findLayer(available, config.basemap)) ||
+    available[0];
+
+  return {
+    basemaps: available,
+    overlays,
+    basemap: basemap.name,
+    shownOverlays: (config.overlays || [])
+      .map((name) => findLayer(overlays, name)?.name)
+      .filter((name): name is string => !!name),
+  };
+}
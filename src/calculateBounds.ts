@@ -9,17 +9,24 @@ export const calculateBounds = (
     return { center: [0, 0], zoom: 2 };
   }
 
-  if (pins.length === 1) {
+  if (pins.length === 1 && !pins[0].radius) {
     return { center: [pins[0].lng, pins[0].lat], zoom: 15 };
   }
 
-  const lats = pins.map((p) => p.lat);
-  const lngs = pins.map((p) => p.lng);
-
-  let minLat = Math.min(...lats);
-  let maxLat = Math.max(...lats);
-  let minLng = Math.min(...lngs);
-  let maxLng = Math.max(...lngs);
+  // Pins that have a radius count with the edges of their circle. One pass,
+  // as long GPX tracks have tens of thousands of points
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLng = Infinity;
+  let maxLng = -Infinity;
+  for (const pin of pins) {
+    for (const { lat, lng } of getCircleEdges(pin)) {
+      minLat = Math.min(minLat, lat);
+      maxLat = Math.max(maxLat, lat);
+      minLng = Math.min(minLng, lng);
+      maxLng = Math.max(maxLng, lng);
+    }
+  }
 
   // Handle date line crossing
   const directSpan = maxLng - minLng;
@@ -94,3 +101,33 @@ export const calculateBounds = (
 
   return { center: [centerLng, centerLat], zoom };
 };
+
+// Mean earth radius in meters, matching the sphere OpenLayers uses for geodesic circles
+const EARTH_RADIUS = 6371008.8;
+
+/**
+ * Get the northern, southern, eastern and western edges of a pin's radius circle,
+ * or the pin itself when it has no radius
+ */
+const getCircleEdges = (pin: MapPin): { lat: number; lng: number }[] => {
+  if (!pin.radius) {
+    return [pin];
+  }
+
+  const latOffset = (pin.radius / EARTH_RADIUS) * (180 / Math.PI);
+  const lngOffset = Math.min(
+    180,
+    latOffset / Math.max(Math.cos((pin.lat * Math.PI) / 180), 0.01)
+  );
+
+  // Wrap longitudes so circles near the date line use the crossing logic
+  const wrapLng = (lng: number) =>
+    lng > 180 ? lng - 360 : lng < -180 ? lng + 360 : lng;
+
+  return [
+    { lat: Math.min(90, pin.lat + latOffset), lng: pin.lng },
+    { lat: Math.max(-90, pin.lat - latOffset), lng: pin.lng },
+    { lat: pin.lat, lng: wrapLng(pin.lng + lngOffset) },
+    { lat: pin.lat, lng: wrapLng(pin.lng - lngOffset) },
+  ];
+};
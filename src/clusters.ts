@@ -0,0 +1,28 @@
+type Extent = [number, number, number, number];
+
+/**
+ * Get the extent a click on a cluster zooms to, so its pins come apart
+ * Returns null when zooming in cannot separate them: the pins share one spot,
+ * or the map is already zoomed in as far as it goes.
+ * Coordinates are in the map's projection, as [x, y].
+ */
+export function getClusterExtent(
+  coordinates: number[][],
+  zoom: number,
+  maxZoom: number
+): Extent | null {
+  if (coordinates.length === 0 || zoom >= maxZoom) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of coordinates) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  return minX === maxX && minY === maxY ? null : [minX, minY, maxX, maxY];
+}
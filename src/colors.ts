@@ -0,0 +1,69 @@
+// Color names that can be used instead of hex values
+export const PIN_COLORS: Record<string, string> = {
+  red: "#ff4444",
+  blue: "#4444ff",
+  green: "#44ff44",
+  yellow: "#ffff44",
+  orange: "#ff8844",
+  purple: "#8844ff",
+  pink: "#ff44ff",
+  brown: "#8b4513",
+  gray: "#888888",
+  black: "#000000",
+  white: "#ffffff",
+};
+
+// CSS color keywords, which the map draws as the browser does
+const CSS_COLOR_NAMES = `
+aliceblue antiquewhite aqua aquamarine azure beige bisque black blanchedalmond
+blue blueviolet brown burlywood cadetblue chartreuse chocolate coral
+cornflowerblue cornsilk crimson cyan darkblue darkcyan darkgoldenrod darkgray
+darkgreen darkgrey darkkhaki darkmagenta darkolivegreen darkorange darkorchid
+darkred darksalmon darkseagreen darkslateblue darkslategray darkslategrey
+darkturquoise darkviolet deeppink deepskyblue dimgray dimgrey dodgerblue
+firebrick floralwhite forestgreen fuchsia gainsboro ghostwhite gold goldenrod
+gray green greenyellow grey honeydew hotpink indianred indigo ivory khaki
+lavender lavenderblush lawngreen lemonchiffon lightblue lightcoral lightcyan
+lightgoldenrodyellow lightgray lightgreen lightgrey lightpink lightsalmon
+lightseagreen lightskyblue lightslategray lightslategrey lightsteelblue
+lightyellow lime limegreen linen magenta maroon mediumaquamarine mediumblue
+mediumorchid mediumpurple mediumseagreen mediumslateblue mediumspringgreen
+mediumturquoise mediumvioletred midnightblue mintcream mistyrose moccasin
+navajowhite navy oldlace olive olivedrab orange orangered orchid palegoldenrod
+palegreen paleturquoise palevioletred papayawhip peachpuff peru pink plum
+powderblue purple rebeccapurple red rosybrown royalblue saddlebrown salmon
+sandybrown seagreen seashell sienna silver skyblue slateblue slategray
+slategrey snow springgreen steelblue tan teal thistle tomato turquoise violet
+wheat white whitesmoke yellow yellowgreen
+`
+  .trim()
+  .split(/\s+/);
+
+// Hex colors with 3, 4, 6 or 8 digits, and rgb() or hsl() with or without alpha
+const HEX_COLOR = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const COLOR_FUNCTION = /^(rgb|rgba|hsl|hsla)\([\d\s.,%/+-]+\)$/i;
+
+/**
+ * Convert a color name to the value it is drawn with, leaving other colors as
+ * they are
+ */
+export function getColorValue(color?: string): string | undefined {
+  if (!color) return undefined;
+
+  // Return mapped color or assume it's a hex value
+  return PIN_COLORS[color.toLowerCase()] || color;
+}
+
+/**
+ * Check whether the map can draw a color: a name, a hex value, or rgb() or
+ * hsl() notation
+ * Examples: red / #ff8800 / rgba(255, 136, 0, 0.5)
+ */
+export function isValidColor(color: string): boolean {
+  const value = color.trim().toLowerCase();
+  return (
+    CSS_COLOR_NAMES.includes(value) ||
+    HEX_COLOR.test(value) ||
+    COLOR_FUNCTION.test(value)
+  );
+}
@@ -0,0 +1,284 @@
+import { MapSyntaxError } from "./diagnostics";
+import { mgrsToLatLng, utmToLatLng } from "./utm";
+
+export interface CoordinateFormat {
+  name: string; // Kept on the pin with the original text, e.g. "dms"
+  example: string; // Shown when the notation is recognized but cannot be read
+  // Returns null when the text is not in this notation; throws when it is but is invalid
+  parse: (text: string) => { lat: number; lng: number } | null;
+}
+
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+const NUMBER = "(-?\\d+(?:\\.\\d+)?)";
+
+// One angle in degrees, minutes and seconds: 40°45'32.4", 40° 45.54' or 40.7589°
+const DMS_ANGLE = `${NUMBER}\\s*°\\s*(?:(\\d+(?:\\.\\d+)?)\\s*['′’]\\s*)?(?:(\\d+(?:\\.\\d+)?)\\s*(?:["″”]|'')\\s*)?`;
+const DMS_PREFIXED = new RegExp(`^([NSEW])\\s*${DMS_ANGLE}`, "i");
+const DMS_SUFFIXED = new RegExp(`^${DMS_ANGLE}([NSEW])?`, "i");
+
+const dms: CoordinateFormat = {
+  name: "dms",
+  example: `40°45'32"N 73°59'06"W`,
+  parse: (text) => {
+    if (!text.includes("°")) return null;
+
+    const first = parseDmsAngle(text.trim());
+    const second = first && parseDmsAngle(first.rest.replace(/^[\s,]+/, ""));
+    if (!first || !second || second.rest.trim()) {
+      throw new MapSyntaxError(
+        "invalid-dms",
+        "Invalid degrees, minutes and seconds",
+        { fix: `Use: [${dms.example}]` }
+      );
+    }
+
+    // Hemisphere letters say which angle is which; otherwise latitude comes first
+    const firstIsLongitude = /[EW]/i.test(first.hemisphere);
+    const secondIsLatitude = /[NS]/i.test(second.hemisphere);
+    if (firstIsLongitude || secondIsLatitude) {
+      if (!firstIsLongitude || !secondIsLatitude) {
+        throw new MapSyntaxError(
+          "invalid-dms",
+          "Give one latitude (N or S) and one longitude (E or W)",
+          { fix: `Use: [${dms.example}]` }
+        );
+      }
+      return { lat: second.value, lng: first.value };
+    }
+
+    return { lat: first.value, lng: second.value };
+  },
+};
+
+const utm: CoordinateFormat = {
+  name: "utm",
+  example: "18T 585628 4511322",
+  parse: (text) => {
+    const match = text
+      .trim()
+      .match(
+        /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:mE)?\s+(\d+(?:\.\d+)?)\s*(?:mN)?$/i
+      );
+    if (!match) return null;
+
+    const zone = Number(match[1]);
+    const easting = Number(match[3]);
+    if (zone < 1 || zone > 60 || easting < 100000 || easting > 900000) {
+      throw new MapSyntaxError("invalid-utm", "Invalid UTM coordinates", {
+        fix: `Use zone, band, easting and northing: [${utm.example}]`,
+      });
+    }
+
+    return utmToLatLng(zone, match[2].toUpperCase(), easting, Number(match[4]));
+  },
+};
+
+const mgrs: CoordinateFormat = {
+  name: "mgrs",
+  example: "18T WL 85628 11322",
+  parse: (text) => {
+    const match = text
+      .replace(/\s+/g, "")
+      .toUpperCase()
+      .match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z][A-HJ-NP-V])(\d*)$/);
+    if (!match) return null;
+
+    const zone = Number(match[1]);
+    const digits = match[4];
+    if (
+      zone < 1 ||
+      zone > 60 ||
+      digits.length % 2 !== 0 ||
+      digits.length > 10
+    ) {
+      throw new MapSyntaxError("invalid-mgrs", "Invalid MGRS reference", {
+        fix: `Use zone, band, square and an even number of digits: [${mgrs.example}]`,
+      });
+    }
+
+    try {
+      return mgrsToLatLng(zone, match[2], match[3], digits);
+    } catch (error) {
+      throw new MapSyntaxError(
+        "invalid-mgrs",
+        error instanceof Error ? error.message : "Invalid MGRS reference",
+        { fix: `Use: [${mgrs.example}]` }
+      );
+    }
+  },
+};
+
+const geoUri: CoordinateFormat = {
+  name: "geo",
+  example: "geo:40.7589,-73.9851",
+  parse: (text) => {
+    const trimmed = text.trim();
+    if (!/^geo:/i.test(trimmed)) return null;
+
+    // A query like geo:0,0?q=40.7589,-73.9851(Times Square) marks a place
+    const query = trimmed.match(/[?&]q=(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)/);
+    const position = trimmed.match(/^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/i);
+    const coordinates = query || position;
+    if (!coordinates) {
+      throw new MapSyntaxError("invalid-geo-uri", "Invalid geo: URI", {
+        fix: `Use: [${geoUri.example}]`,
+      });
+    }
+
+    return { lat: Number(coordinates[1]), lng: Number(coordinates[2]) };
+  },
+};
+
+const mapUrl: CoordinateFormat = {
+  name: "url",
+  example: "https://www.openstreetmap.org/#map=17/40.75890/-73.98510",
+  parse: (text) => {
+    const url = text.trim();
+    const isGoogle =
+      /^https?:\/\/([\w-]+\.)*google\.[a-z.]+\/maps|^https?:\/\/maps\.google\./i.test(
+        url
+      );
+    const isOsm =
+      /^https?:\/\/([\w-]+\.)*(openstreetmap\.org|osm\.org)\//i.test(url);
+    if (!isGoogle && !isOsm) return null;
+
+    // Most specific first: the place itself, then a marker, then the view center
+    const patterns = isGoogle
+      ? [
+          /!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/,
+          /[?&](?:q|query|ll|destination|center)=(-?\d+(?:\.\d+)?)(?:,|%2C)\s*(-?\d+(?:\.\d+)?)/i,
+          /@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/,
+        ]
+      : [
+          /[?&]mlat=(-?\d+(?:\.\d+)?)&mlon=(-?\d+(?:\.\d+)?)/,
+          /#map=\d+\/(-?\d+(?:\.\d+)?)\/(-?\d+(?:\.\d+)?)/,
+        ];
+
+    for (const pattern of patterns) {
+      const match = url.match(pattern);
+      if (match) {
+        return { lat: Number(match[1]), lng: Number(match[2]) };
+      }
+    }
+
+    throw new MapSyntaxError(
+      "invalid-map-url",
+      "No coordinates found in map link",
+      {
+        fix: "Copy the link from the address bar after the map has moved to the place",
+      }
+    );
+  },
+};
+
+const geohash: CoordinateFormat = {
+  name: "geohash",
+  example: "geohash:dr5ru7",
+  parse: (text) => {
+    const trimmed = text.trim().toLowerCase();
+    const prefixed = trimmed.match(/^geohash:\s*(\S*)$/);
+
+    // A bare geohash needs a digit and a letter so it is not mistaken for a word
+    const hash = prefixed
+      ? prefixed[1]
+      : /^(?=.*\d)(?=.*[a-z])[0-9b-hjkmnp-z]{5,12}$/.test(trimmed)
+        ? trimmed
+        : null;
+    if (hash === null) return null;
+
+    if (!/^[0-9b-hjkmnp-z]{1,12}$/.test(hash)) {
+      throw new MapSyntaxError("invalid-geohash", "Invalid geohash", {
+        fix: `Use: [${geohash.example}]`,
+      });
+    }
+
+    return decodeGeohash(hash);
+  },
+};
+
+const coordinateFormats: CoordinateFormat[] = [
+  geoUri,
+  mapUrl,
+  dms,
+  utm,
+  mgrs,
+  geohash,
+];
+
+/**
+ * Add a coordinate notation to the ones tried for bracketed locations
+ * Formats added later are tried after the built-in ones.
+ */
+export function registerCoordinateFormat(format: CoordinateFormat): void {
+  coordinateFormats.push(format);
+}
+
+/**
+ * Read a location written in a notation other than decimal lat, lng or a Plus Code
+ * Returns null when no format recognizes the text.
+ * Examples:
+ * 40°45'32"N 73°59'06"W
+ * 18T 585628 4511322
+ * 18T WL 85628 11322
+ * geo:40.7589,-73.9851
+ * https://www.openstreetmap.org/#map=17/40.75890/-73.98510
+ * geohash:dr5ru7
+ */
+export function parseCoordinateNotation(
+  text: string
+): { lat: number; lng: number; format: string } | null {
+  for (const format of coordinateFormats) {
+    const location = format.parse(text);
+    if (location) {
+      return { ...location, format: format.name };
+    }
+  }
+  return null;
+}
+
+function parseDmsAngle(
+  text: string
+): { value: number; hemisphere: string; rest: string } | null {
+  const prefixed = text.match(DMS_PREFIXED);
+  const match = prefixed || text.match(DMS_SUFFIXED);
+  if (!match) return null;
+
+  const [, first, second, third, fourth] = match;
+  const hemisphere = (prefixed ? first : match[4] || "").toUpperCase();
+  const [degrees, minutes = "0", seconds = "0"] = prefixed
+    ? [second, third, fourth]
+    : [first, second, third];
+
+  if (Number(minutes) >= 60 || Number(seconds) >= 60) {
+    return null;
+  }
+
+  const magnitude =
+    Math.abs(Number(degrees)) + Number(minutes) / 60 + Number(seconds) / 3600;
+  const negative = degrees.startsWith("-") || /[SW]/.test(hemisphere);
+
+  return {
+    value: negative ? -magnitude : magnitude,
+    hemisphere,
+    rest: text.slice(match[0].length),
+  };
+}
+
+function decodeGeohash(hash: string): { lat: number; lng: number } {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let isLongitude = true; // Bits alternate, starting with longitude
+
+  for (const char of hash) {
+    const bits = GEOHASH_ALPHABET.indexOf(char);
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = isLongitude ? lng : lat;
+      const middle = (range[0] + range[1]) / 2;
+      range[(bits >> bit) & 1 ? 0 : 1] = middle;
+      isLongitude = !isLongitude;
+    }
+  }
+
+  return { lat: (lat[0] + lat[1]) / 2, lng: (lng[0] + lng[1]) / 2 };
+}
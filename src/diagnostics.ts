@@ -0,0 +1,88 @@
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface MapDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string; // Stable identifier, e.g. "invalid-coordinates"
+  message: string;
+  line?: number; // 1-based line in the block source, counting blank lines and frontmatter
+  column?: number; // 1-based column in that line
+  fix?: string; // Suggested fix, e.g. "Use: [lat, lng] label"
+}
+
+/**
+ * An error thrown while parsing a line of map syntax
+ * Carries the diagnostic code, an optional fix and the offset of the problem
+ * within the line, so the caller can report where exactly it is.
+ */
+export class MapSyntaxError extends Error {
+  code: string;
+  fix?: string;
+  offset?: number; // 0-based offset of the problem within the parsed text
+
+  constructor(
+    code: string,
+    message: string,
+    options: { fix?: string; offset?: number } = {}
+  ) {
+    super(message);
+    this.name = "MapSyntaxError";
+    this.code = code;
+    this.fix = options.fix;
+    this.offset = options.offset;
+  }
+}
+
+/**
+ * Build an error diagnostic
+ */
+export function errorDiagnostic(
+  code: string,
+  message: string,
+  details: Pick<MapDiagnostic, "line" | "column" | "fix"> = {}
+): MapDiagnostic {
+  return { severity: "error", code, message, ...details };
+}
+
+/**
+ * Build a warning diagnostic, for problems that do not stop the map from rendering
+ */
+export function warningDiagnostic(
+  code: string,
+  message: string,
+  details: Pick<MapDiagnostic, "line" | "column" | "fix"> = {}
+): MapDiagnostic {
+  return { severity: "warning", code, message, ...details };
+}
+
+/**
+ * Build an error diagnostic from an error thrown while parsing a line
+ * The column is where the line's content starts; a MapSyntaxError offset moves
+ * it to the exact position of the problem.
+ */
+export function diagnosticFromError(
+  error: unknown,
+  position: { line: number; column: number }
+): MapDiagnostic {
+  if (error instanceof MapSyntaxError) {
+    return errorDiagnostic(error.code, error.message, {
+      line: position.line,
+      column: position.column + (error.offset ?? 0),
+      fix: error.fix,
+    });
+  }
+
+  return errorDiagnostic(
+    "invalid-syntax",
+    error instanceof Error ? error.message : "Invalid format",
+    position
+  );
+}
+
+/**
+ * Format a diagnostic as a single line of text: "Line 3: Invalid coordinates"
+ */
+export function formatDiagnostic(diagnostic: MapDiagnostic): string {
+  return diagnostic.line
+    ? `Line ${diagnostic.line}: ${diagnostic.message}`
+    : diagnostic.message;
+}
@@ -0,0 +1,99 @@
+import {
+  findContinuationEnd,
+  readPinLineAttributes,
+  type MapPin,
+} from "./parseMapSyntax";
+import { serializePin } from "./serializeMapSyntax";
+
+// A change made to a pin in a map's edit mode
+export type PinEdit =
+  | { type: "add"; lat: number; lng: number }
+  | {
+      type: "update";
+      pin: MapPin; // The pin as parsed, with the block line it was written on
+      changes: Partial<
+        Pick<MapPin, "lat" | "lng" | "label" | "color" | "icon" | "group">
+      >;
+    };
+
+// Six decimals is about 10 cm, finer than a pin can be placed by hand
+const COORDINATE_DECIMALS = 6;
+
+/**
+ * Check whether a block is written in map syntax, which edits can be applied to,
+ * rather than GeoJSON
+ */
+export function isEditableBlock(source: string): boolean {
+  const lines = source.split("\n");
+  const firstLine = lines.findIndex((line) => line.trim());
+  const frontmatterEnd =
+    firstLine !== -1 && lines[firstLine].trim() === "---"
+      ? lines.findIndex(
+          (line, index) => index > firstLine && line.trim() === "---"
+        )
+      : -1;
+
+  return !lines
+    .slice(frontmatterEnd + 1)
+    .join("\n")
+    .trim()
+    .startsWith("{");
+}
+
+/**
+ * Apply a pin edit to a block's source and return the new source
+ * A new pin is added as a line at the end of the block. An updated pin's line,
+ * with the description lines indented under it, is rewritten in place, keeping
+ * its indentation and the JSON attributes the edit does not change; a moved pin
+ * is written as decimal coordinates.
+ * Throws when the pin's line no longer holds a pin.
+ */
+export function applyPinEdit(source: string, edit: PinEdit): string {
+  if (edit.type === "add") {
+    const line = serializePin({
+      lat: roundCoordinate(edit.lat),
+      lng: roundCoordinate(edit.lng),
+    });
+    return source.trim() ? `${source.replace(/\s+$/, "")}\n${line}` : line;
+  }
+
+  const lines = source.split("\n");
+  const index = (edit.pin.line ?? 0) - 1;
+  const target = lines[index]?.trim();
+  if (!target || !target.startsWith("[") || target.startsWith("[[")) {
+    throw new Error("This pin's line in the block has changed");
+  }
+
+  const pin: MapPin = { ...edit.pin, ...edit.changes };
+  if (edit.changes.lat !== undefined || edit.changes.lng !== undefined) {
+    pin.lat = roundCoordinate(pin.lat);
+    pin.lng = roundCoordinate(pin.lng);
+    delete pin.plusCode;
+    delete pin.plusCodePlace;
+    delete pin.notation;
+  }
+  for (const key of ["label", "color", "icon", "group"] as const) {
+    if (!pin[key]) delete pin[key];
+  }
+
+  // Merge the changed attributes into the ones written, which keeps values the
+  // pin does not hold as written, like lists or {"radius": "2km"}
+  const written = readPinLineAttributes(lines[index]);
+  const attributes = written && { ...written };
+  if (attributes) {
+    for (const key of ["color", "icon", "group"] as const) {
+      if (key in edit.changes) attributes[key] = pin[key];
+    }
+  }
+
+  const indentation = lines[index].slice(0, lines[index].search(/\S/));
+  const pinLines = serializePin(pin, attributes)
+    .split("\n")
+    .map((line) => (line ? indentation + line : line));
+  lines.splice(index, findContinuationEnd(lines, index) - index, ...pinLines);
+  return lines.join("\n");
+}
+
+function roundCoordinate(value: number): number {
+  return Number(value.toFixed(COORDINATE_DECIMALS));
+}
@@ -0,0 +1,92 @@
+import { findLocality, type Locality } from "./localities";
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+}
+
+// Finds where a place is, or null when it does not know the place
+export type Geocoder = (place: string) => Promise<GeocodeResult | null>;
+
+// Nominatim's usage policy allows at most one request per second
+const NOMINATIM_REQUEST_INTERVAL = 1000;
+
+/**
+ * Look places up in a list of localities, such as the bundled cities or a CSV
+ * file from the vault. Works offline.
+ */
+export function createGazetteerGeocoder(localities: Locality[]): Geocoder {
+  return async (place) => {
+    const locality = findLocality(place, localities);
+    return locality ? { lat: locality.lat, lng: locality.lng } : null;
+  };
+}
+
+/**
+ * Look places up with a Nominatim server, by default the OpenStreetMap one
+ * `request` fetches a URL and returns the parsed JSON response, so the caller
+ * decides how to make HTTP requests. Requests are spaced a second apart.
+ */
+export function createNominatimGeocoder(
+  request: (url: string) => Promise<unknown>,
+  baseUrl = "https://nominatim.openstreetmap.org"
+): Geocoder {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return (place) => {
+    const url = `${baseUrl.replace(/\/+$/, "")}/search?format=jsonv2&limit=1&q=${encodeURIComponent(place)}`;
+    const response = queue.then(() => request(url));
+    queue = response
+      .catch(() => undefined)
+      .then(() => wait(NOMINATIM_REQUEST_INTERVAL));
+
+    return response.then((results) => {
+      const first = Array.isArray(results) ? results[0] : undefined;
+      const lat = parseFloat(first?.lat);
+      const lng = parseFloat(first?.lon);
+      return isNaN(lat) || isNaN(lng) ? null : { lat, lng };
+    });
+  };
+}
+
+/**
+ * Try each geocoder in turn until one finds the place
+ */
+export function chainGeocoders(...geocoders: Geocoder[]): Geocoder {
+  return async (place) => {
+    for (const geocoder of geocoders) {
+      const result = await geocoder(place);
+      if (result) return result;
+    }
+    return null;
+  };
+}
+
+/**
+ * Remember the places a geocoder finds in `cache`, so they resolve the same
+ * way later and offline. `onChange` is called after a new place is added so
+ * the cache can be saved. Places that are not found are not cached.
+ */
+export function cacheGeocoder(
+  geocoder: Geocoder,
+  cache: Record<string, GeocodeResult>,
+  onChange: () => void
+): Geocoder {
+  return async (place) => {
+    // The cache is a plain object, so only its own keys count and a place
+    // named "__proto__" is never written, as that would change its prototype
+    const key = place.trim().toLowerCase();
+    if (Object.prototype.hasOwnProperty.call(cache, key)) return cache[key];
+
+    const result = await geocoder(place);
+    if (result && key !== "__proto__") {
+      cache[key] = result;
+      onChange();
+    }
+    return result;
+  };
+}
+
+function wait(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
@@ -0,0 +1,100 @@
+import type { TFile, Vault } from "obsidian";
+import { errorDiagnostic } from "./diagnostics";
+import { parseGeoJSON } from "./parseGeoJSON";
+import { parseGPX } from "./parseGPX";
+import { parseKML, parseKMZ } from "./parseKML";
+import type { ParsedMapData } from "./parseMapSyntax";
+
+// A data file format that a block can reference from its config
+export interface LinkedFileLoader {
+  key: "geojson" | "gpx" | "kml";
+  name: string;
+  load: (vault: Vault, file: TFile) => Promise<ParsedMapData>;
+}
+
+export const LINKED_FILE_LOADERS: LinkedFileLoader[] = [
+  {
+    key: "geojson",
+    name: "GeoJSON",
+    load: async (vault, file) => parseGeoJSON(await vault.cachedRead(file)),
+  },
+  {
+    key: "gpx",
+    name: "GPX",
+    load: async (vault, file) => parseGPX(await vault.cachedRead(file)),
+  },
+  {
+    key: "kml",
+    name: "KML",
+    load: async (vault, file) =>
+      file.extension.toLowerCase() === "kmz"
+        ? parseKMZ(new Uint8Array(await vault.readBinary(file)))
+        : parseKML(await vault.cachedRead(file)),
+  },
+];
+
+/**
+ * Read the data files named in the block config and merge them into the parsed data
+ * `findFile` resolves a path from the config to a vault file. A file that is
+ * missing or cannot be read is reported as an error, and the others still load.
+ */
+export async function loadLinkedFiles(
+  mapData: ParsedMapData,
+  vault: Vault,
+  findFile: (path: string) => TFile | null,
+  loaders: LinkedFileLoader[] = LINKED_FILE_LOADERS
+): Promise<void> {
+  for (const loader of loaders) {
+    for (const path of mapData.config?.[loader.key] || []) {
+      const file = findFile(path);
+      if (!file) {
+        mapData.diagnostics.push(
+          errorDiagnostic(
+            "file-not-found",
+            `${loader.name} file not found: ${path}`,
+            { fix: "Check the file name, or use a [[link]] to the file" }
+          )
+        );
+        continue;
+      }
+
+      let fileData: ParsedMapData;
+      try {
+        fileData = await loader.load(vault, file);
+      } catch (error) {
+        mapData.diagnostics.push(
+          errorDiagnostic(
+            "file-unreadable",
+            `${file.name}: Could not read ${loader.name} file: ${error instanceof Error ? error.message : "Unknown error"}`,
+            { fix: `Check that ${file.name} is a ${loader.name} file` }
+          )
+        );
+        continue;
+      }
+      mergeMapData(mapData, fileData, file.name);
+    }
+  }
+}
+
+/**
+ * Add the pins, shapes and diagnostics from a loaded file to the block's data
+ * A file's diagnostics point into the file rather than the block, so their
+ * line and column are dropped to keep them from jumping to the wrong line.
+ */
+function mergeMapData(
+  target: ParsedMapData,
+  source: ParsedMapData,
+  fileName: string
+) {
+  target.pins.push(...source.pins);
+  target.polylines.push(...source.polylines);
+  target.polygons.push(...source.polygons);
+  target.diagnostics.push(
+    ...source.diagnostics.map(({ severity, code, message, fix }) => ({
+      severity,
+      code,
+      message: `${fileName}: ${message}`,
+      fix,
+    }))
+  );
+}
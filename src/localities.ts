@@ -0,0 +1,153 @@
+export interface Locality {
+  name: string;
+  country: string;
+  countryCode: string; // ISO 3166-1 alpha-2
+  region?: string; // State or province code, e.g. "NY"
+  lat: number;
+  lng: number;
+}
+
+// Large cities as name,country,country code,lat,lng,region, most populous first
+// within a country, so a bare name picks the best-known place
+const LOCALITY_DATA = `
+Tokyo,Japan,JP,35.6762,139.6503
+Osaka,Japan,JP,34.6937,135.5023
+Kyoto,Japan,JP,35.0116,135.7681
+Delhi,India,IN,28.6139,77.209
+Mumbai,India,IN,19.076,72.8777
+Bangalore,India,IN,12.9716,77.5946
+Shanghai,China,CN,31.2304,121.4737
+Beijing,China,CN,39.9042,116.4074
+Hong Kong,China,HK,22.3193,114.1694
+Seoul,South Korea,KR,37.5665,126.978
+Bangkok,Thailand,TH,13.7563,100.5018
+Singapore,Singapore,SG,1.3521,103.8198
+Jakarta,Indonesia,ID,-6.2088,106.8456
+Manila,Philippines,PH,14.5995,120.9842
+Hanoi,Vietnam,VN,21.0278,105.8342
+Dubai,United Arab Emirates,AE,25.2048,55.2708
+Istanbul,Turkey,TR,41.0082,28.9784
+Tel Aviv,Israel,IL,32.0853,34.7818
+Cairo,Egypt,EG,30.0444,31.2357
+Lagos,Nigeria,NG,6.5244,3.3792
+Nairobi,Kenya,KE,-1.2921,36.8219
+Johannesburg,South Africa,ZA,-26.2041,28.0473
+Cape Town,South Africa,ZA,-33.9249,18.4241
+Moscow,Russia,RU,55.7558,37.6173
+London,United Kingdom,GB,51.5074,-0.1278
+Manchester,United Kingdom,GB,53.4808,-2.2426
+Edinburgh,United Kingdom,GB,55.9533,-3.1883
+Dublin,Ireland,IE,53.3498,-6.2603
+Paris,France,FR,48.8566,2.3522
+Lyon,France,FR,45.764,4.8357
+Marseille,France,FR,43.2965,5.3698
+Berlin,Germany,DE,52.52,13.405
+Hamburg,Germany,DE,53.5511,9.9937
+Munich,Germany,DE,48.1351,11.582
+Amsterdam,Netherlands,NL,52.3676,4.9041
+Brussels,Belgium,BE,50.8503,4.3517
+Zurich,Switzerland,CH,47.3769,8.5417
+Vienna,Austria,AT,48.2082,16.3738
+Prague,Czechia,CZ,50.0755,14.4378
+Warsaw,Poland,PL,52.2297,21.0122
+Copenhagen,Denmark,DK,55.6761,12.5683
+Stockholm,Sweden,SE,59.3293,18.0686
+Oslo,Norway,NO,59.9139,10.7522
+Helsinki,Finland,FI,60.1699,24.9384
+Madrid,Spain,ES,40.4168,-3.7038
+Barcelona,Spain,ES,41.3874,2.1686
+Lisbon,Portugal,PT,38.7223,-9.1393
+Rome,Italy,IT,41.9028,12.4964
+Milan,Italy,IT,45.4642,9.19
+Athens,Greece,GR,37.9838,23.7275
+New York,United States,US,40.7128,-74.006,NY
+Los Angeles,United States,US,34.0522,-118.2437,CA
+Chicago,United States,US,41.8781,-87.6298,IL
+Houston,United States,US,29.7604,-95.3698,TX
+San Francisco,United States,US,37.7749,-122.4194,CA
+Seattle,United States,US,47.6062,-122.3321,WA
+Boston,United States,US,42.3601,-71.0589,MA
+Washington,United States,US,38.9072,-77.0369,DC
+Miami,United States,US,25.7617,-80.1918,FL
+Toronto,Canada,CA,43.6532,-79.3832,ON
+Montreal,Canada,CA,45.5017,-73.5673,QC
+Vancouver,Canada,CA,49.2827,-123.1207,BC
+Mexico City,Mexico,MX,19.4326,-99.1332
+Bogota,Colombia,CO,4.711,-74.0721
+Lima,Peru,PE,-12.0464,-77.0428
+Santiago,Chile,CL,-33.4489,-70.6693
+Buenos Aires,Argentina,AR,-34.6037,-58.3816
+Sao Paulo,Brazil,BR,-23.5505,-46.6333
+Rio de Janeiro,Brazil,BR,-22.9068,-43.1729
+Sydney,Australia,AU,-33.8688,151.2093,NSW
+Melbourne,Australia,AU,-37.8136,144.9631,VIC
+Brisbane,Australia,AU,-27.4698,153.0251,QLD
+Perth,Australia,AU,-31.9523,115.8613,WA
+Auckland,New Zealand,NZ,-36.8485,174.7633
+Wellington,New Zealand,NZ,-41.2865,174.7762
+`;
+
+export const LOCALITIES: Locality[] = parseLocalityCsv(LOCALITY_DATA);
+
+/**
+ * Find a locality by name, optionally followed by its region or country
+ * Matching ignores case and accents. A part after a comma picks between places
+ * with the same name by their region code, country or country code. When no
+ * place matches it, the name means somewhere else ("Paris, Texas") and
+ * undefined is returned, so another geocoder can look it up.
+ * Examples: "Melbourne", "Paris, France", "New York, NY", "São Paulo, BR"
+ */
+export function findLocality(
+  text: string,
+  localities: Locality[] = LOCALITIES
+): Locality | undefined {
+  const [name, ...rest] = text.split(",").map(normalizeName);
+  if (!name) return undefined;
+
+  const candidates = localities.filter(
+    (locality) => normalizeName(locality.name) === name
+  );
+  if (rest.length === 0) return candidates[0];
+
+  return candidates.find((locality) =>
+    rest.some(
+      (part) =>
+        part === normalizeName(locality.country) ||
+        part === locality.countryCode.toLowerCase() ||
+        part === locality.region?.toLowerCase()
+    )
+  );
+}
+
+function normalizeName(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents: São -> Sao
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Parse localities from CSV lines: name,country,country code,lat,lng,region
+ * The region is optional. Blank lines and lines that do not have valid
+ * coordinates are skipped.
+ */
+export function parseLocalityCsv(csv: string): Locality[] {
+  return csv.split("\n").reduce<Locality[]>((localities, line) => {
+    const [name, country, countryCode, lat, lng, region] = line
+      .split(",")
+      .map((field) => field.trim());
+    if (name && !isNaN(parseFloat(lat)) && !isNaN(parseFloat(lng))) {
+      localities.push({
+        name,
+        country,
+        countryCode,
+        lat: parseFloat(lat),
+        lng: parseFloat(lng),
+        ...(region ? { region } : {}),
+      });
+    }
+    return localities;
+  }, []);
+}
@@ -1,46 +1,121 @@
-import { App, Plugin, PluginSettingTab, Setting, Modal } from "obsidian";
+import {
+  App,
+  Plugin,
+  PluginSettingTab,
+  Setting,
+  Modal,
+  MarkdownView,
+  Notice,
+  debounce,
+  getAllTags,
+  getIcon,
+  getLinkpath,
+  requestUrl,
+  type MarkdownPostProcessorContext,
+} from "obsidian";
 import React from "react";
 import { createRoot } from "react-dom/client";
-import { MapComponent } from "./MapComponent";
-import { parseMapSyntax, type MapPin, type MapConfig } from "./parseMapSyntax";
+import { MapComponent, type MapViewState } from "./MapComponent";
+import {
+  parseMapSyntax,
+  type MapConfig,
+  type MapPin,
+  type ParsedMapData,
+} from "./parseMapSyntax";
+import { parseReferenceLocation } from "./parseMapConfig";
+import { NoteMapView, VIEW_TYPE_NOTE_MAP } from "./NoteMapView";
+import {
+  collectNotePins,
+  findNoteLocation,
+  LOCATION_PROPERTY,
+  type LocatedNote,
+} from "./noteLocations";
+import { parseNoteQuery, type NotePredicate } from "./noteQuery";
+import {
+  errorDiagnostic,
+  formatDiagnostic,
+  warningDiagnostic,
+  type MapDiagnostic,
+} from "./diagnostics";
+import {
+  cacheGeocoder,
+  chainGeocoders,
+  createGazetteerGeocoder,
+  createNominatimGeocoder,
+  type GeocodeResult,
+  type Geocoder,
+} from "./geocoder";
+import { LOCALITIES, parseLocalityCsv } from "./localities";
+import { applyPinEdit, isEditableBlock, type PinEdit } from "./editMapBlock";
+import { applyPinStyle } from "./applyAttributes";
+import { getIconImagePath, getLucideIconId } from "./pinIcons";
+import {
+  DEFAULT_BASEMAPS,
+  DEFAULT_OVERLAYS,
+  findLayer,
+  formatLayerList,
+  parseLayerList,
+  type NamedLayer,
+} from "./basemaps";
+import { loadLinkedFiles } from "./linkedFiles";
 
 interface PluginSettings {
   defaultZoom: number;
   pinSize: number;
   defaultPinColor: string;
+  plusCodeReference: string; // City or "lat, lng" that short Plus Codes are recovered near
+  gazetteerPath: string; // CSV file in the vault with extra places: name,country,code,lat,lng,region
+  useNominatim: boolean; // Look up places the gazetteer does not know online
+  geocodeCache: Record<string, GeocodeResult>; // Places found so far, so notes render offline
+  basemaps: NamedLayer[]; // Tile layers a map can be switched to
+  overlays: NamedLayer[]; // Tile layers that can be shown on top of the basemap
 }
 
 const DEFAULT_SETTINGS: PluginSettings = {
   defaultZoom: 15,
   pinSize: 12,
   defaultPinColor: "#ff4444",
+  plusCodeReference: "",
+  gazetteerPath: "",
+  useNominatim: false,
+  geocodeCache: {},
+  basemaps: DEFAULT_BASEMAPS,
+  overlays: DEFAULT_OVERLAYS,
 };
 
 interface MapInstance {
   root: any;
   element: HTMLElement;
   renderFunction: () => void;
+  refreshNotes?: () => void; // Re-run the block's note query
+}
+
+// A pin whose coordinates were looked up after parsing, with its place in the block
+interface ResolvedPin {
+  pin: MapPin;
+  index: number;
+  line: number;
 }
 
 class MapModal extends Modal {
-  private pins: MapPin[];
+  private mapData: ParsedMapData;
   private initialCenter: [number, number];
   private settings: PluginSettings;
-  private mapConfig?: MapConfig;
+  private sourcePath: string;
   private root: any;
 
   constructor(
     app: App,
-    pins: MapPin[],
+    mapData: ParsedMapData,
     initialCenter: [number, number],
     settings: PluginSettings,
-    mapConfig?: MapConfig
+    sourcePath: string
   ) {
     super(app);
-    this.pins = pins;
+    this.mapData = mapData;
     this.initialCenter = initialCenter;
     this.settings = settings;
-    this.mapConfig = mapConfig;
+    this.sourcePath = sourcePath;
   }
 
   onOpen() {
@@ -82,14 +157,19 @@ class MapModal extends Modal {
     this.root = createRoot(mapContainer);
     this.root.render(
       React.createElement(MapComponent, {
-        pins: this.pins,
+        pins: this.mapData.pins,
+        polylines: this.mapData.polylines,
+        polygons: this.mapData.polygons,
         initialCenter: this.initialCenter,
         initialZoom: this.settings.defaultZoom,
         pinSize: this.settings.pinSize,
         defaultPinColor: this.settings.defaultPinColor,
+        basemaps: this.settings.basemaps,
+        overlays: this.settings.overlays,
         height: "100%",
         app: this.app,
-        mapConfig: this.mapConfig,
+        sourcePath: this.sourcePath,
+        mapConfig: this.mapData.config,
       })
     );
   }
@@ -105,11 +185,39 @@ export default class MapPlugin extends Plugin {
   settings: PluginSettings;
   private mapInstances: Map<HTMLElement, MapInstance> = new Map();
 
+  // Blocks in edit mode, by note path and block start, with the view to restore
+  // when an edit re-renders them
+  private editingMaps: Map<string, MapViewState | undefined> = new Map();
+
+  // New places are saved a little later, without re-rendering the maps
+  private saveGeocodeCache = debounce(
+    () => this.saveData(this.settings),
+    2000,
+    true
+  );
+
   async onload() {
     await this.loadSettings();
 
     this.registerMarkdownCodeBlockProcessor("map", this.processMap.bind(this));
 
+    this.registerView(
+      VIEW_TYPE_NOTE_MAP,
+      (leaf) => new NoteMapView(leaf, this)
+    );
+
+    this.addCommand({
+      id: "open-note-map",
+      name: "Open note map",
+      callback: () => this.openNoteMap(),
+    });
+
+    // Query-driven maps follow their notes; wait for a pause in typing first
+    const refreshNoteMaps = debounce(() => this.refreshNoteMaps(), 500, true);
+    this.registerEvent(this.app.metadataCache.on("changed", refreshNoteMaps));
+    this.registerEvent(this.app.vault.on("delete", refreshNoteMaps));
+    this.registerEvent(this.app.vault.on("rename", refreshNoteMaps));
+
     this.addSettingTab(new SettingTab(this.app, this));
   }
 
@@ -126,7 +234,11 @@ export default class MapPlugin extends Plugin {
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const loaded = await this.loadData();
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, loaded, {
+      // A copy, as places found are added to it and the default is shared
+      geocodeCache: { ...loaded?.geocodeCache },
+    });
   }
 
   async saveSettings() {
@@ -135,6 +247,262 @@ export default class MapPlugin extends Plugin {
     this.refreshAllMaps();
   }
 
+  /**
+   * Warn about a basemap or overlays the block names that are not in the
+   * settings
+   */
+  private checkLayers(mapData: ParsedMapData) {
+    const { basemap, overlays = [] } = mapData.config ?? {};
+    const { settings } = this;
+    const unknown = [
+      ...(basemap && !findLayer(settings.basemaps, basemap)
+        ? [{ kind: "basemap", name: basemap, known: settings.basemaps }]
+        : []),
+      ...overlays
+        .filter((name) => !findLayer(settings.overlays, name))
+        .map((name) => ({ kind: "overlay", name, known: settings.overlays })),
+    ];
+
+    for (const { kind, name, known } of unknown) {
+      mapData.diagnostics.push(
+        warningDiagnostic(`unknown-${kind}`, `Unknown ${kind}: ${name}`, {
+          fix:
+            known.length > 0
+              ? `Known ${kind}s: ${known.map((layer) => layer.name).join(", ")}`
+              : `Add ${kind}s in the plugin settings`,
+        })
+      );
+    }
+  }
+
+  /**
+   * Warn about image icons that are not in the vault and Lucide icons that
+   * Obsidian does not have, once for each icon
+   */
+  private checkIcons(mapData: ParsedMapData, sourcePath: string) {
+    const checked = new Set<string>();
+    for (const pin of mapData.pins) {
+      const { icon } = applyPinStyle(pin, mapData.config);
+      if (!icon || checked.has(icon)) continue;
+      checked.add(icon);
+
+      const path = getIconImagePath(icon);
+      if (
+        path &&
+        !this.app.metadataCache.getFirstLinkpathDest(path, sourcePath)
+      ) {
+        mapData.diagnostics.push(
+          warningDiagnostic("icon-not-found", `Icon not found: ${path}`, {
+            line: pin.line,
+            fix: "Check the image's name, or add it to the vault",
+          })
+        );
+      }
+
+      const lucideId = getLucideIconId(icon);
+      if (lucideId && !getIcon(lucideId)) {
+        mapData.diagnostics.push(
+          warningDiagnostic("icon-not-found", `Icon not found: ${lucideId}`, {
+            line: pin.line,
+            fix: "Use the name of a Lucide icon, like lucide-tent",
+          })
+        );
+      }
+    }
+  }
+
+  /**
+   * List every markdown note with its frontmatter and tags
+   */
+  getLocatedNotes(): LocatedNote[] {
+    return this.app.vault.getMarkdownFiles().map((file) => {
+      const cache = this.app.metadataCache.getFileCache(file);
+      return {
+        path: file.path,
+        title: file.basename,
+        frontmatter: cache?.frontmatter,
+        tags: (cache && getAllTags(cache)) || [],
+      };
+    });
+  }
+
+  /**
+   * Add pins for the notes that match a block's query to its parsed data
+   */
+  private getQueryMapData(
+    parseResult: ParsedMapData,
+    notePredicate: NotePredicate
+  ): ParsedMapData {
+    const noteData = collectNotePins(
+      this.getLocatedNotes().filter(notePredicate)
+    );
+    return {
+      ...parseResult,
+      pins: [...noteData.pins, ...parseResult.pins],
+      diagnostics: [...parseResult.diagnostics, ...noteData.diagnostics],
+    };
+  }
+
+  private refreshNoteMaps() {
+    this.mapInstances.forEach((instance) => {
+      try {
+        instance.refreshNotes?.();
+      } catch (error) {
+        console.warn("Error refreshing map:", error);
+      }
+    });
+  }
+
+  /**
+   * Look up the coordinates of pins written as [[Note]] links
+   */
+  private async resolveNoteLinks(
+    mapData: ParsedMapData,
+    sourcePath: string
+  ): Promise<ResolvedPin[]> {
+    const resolved: ResolvedPin[] = [];
+
+    for (const noteLink of mapData.noteLinks || []) {
+      const file = this.app.metadataCache.getFirstLinkpathDest(
+        getLinkpath(noteLink.note),
+        sourcePath
+      );
+      if (!file) {
+        mapData.diagnostics.push(
+          errorDiagnostic(
+            "note-not-found",
+            `Note not found: ${noteLink.note}`,
+            {
+              line: noteLink.line,
+              fix: "Check the note name, or create the note",
+            }
+          )
+        );
+        continue;
+      }
+
+      try {
+        const location = findNoteLocation(
+          this.app.metadataCache.getFileCache(file)?.frontmatter,
+          await this.app.vault.cachedRead(file)
+        );
+        if (!location) {
+          mapData.diagnostics.push(
+            errorDiagnostic(
+              "missing-location",
+              `No location found in ${file.basename}`,
+              {
+                line: noteLink.line,
+                fix: `Add "${LOCATION_PROPERTY}: [lat, lng]" to the note's properties`,
+              }
+            )
+          );
+          continue;
+        }
+
+        resolved.push({
+          pin: {
+            ...location,
+            label: file.basename,
+            ...noteLink.pin,
+            notePath: file.path,
+          },
+          index: noteLink.index,
+          line: noteLink.line,
+        });
+      } catch (error) {
+        mapData.diagnostics.push(
+          errorDiagnostic(
+            "invalid-location",
+            `${file.basename}: ${error instanceof Error ? error.message : "Invalid location"}`,
+            { line: noteLink.line }
+          )
+        );
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Build the geocoder for place-name pins: the vault gazetteer and the bundled
+   * cities, then the places found online so far, then Nominatim if enabled
+   * Only online results are cached, so edits to the gazetteer take effect.
+   */
+  private async getGeocoder(): Promise<Geocoder> {
+    const { gazetteerPath, useNominatim, geocodeCache } = this.settings;
+    const gazetteer = gazetteerPath
+      ? this.app.vault.getFileByPath(gazetteerPath)
+      : null;
+    const localities = gazetteer
+      ? [
+          ...parseLocalityCsv(await this.app.vault.cachedRead(gazetteer)),
+          ...LOCALITIES,
+        ]
+      : LOCALITIES;
+
+    const online: Geocoder = useNominatim
+      ? createNominatimGeocoder(async (url) => (await requestUrl({ url })).json)
+      : async () => null;
+    return chainGeocoders(
+      createGazetteerGeocoder(localities),
+      cacheGeocoder(online, geocodeCache, () => this.saveGeocodeCache())
+    );
+  }
+
+  /**
+   * Look up the coordinates of pins written as [Place name]
+   */
+  private async resolvePlaces(mapData: ParsedMapData): Promise<ResolvedPin[]> {
+    const places = mapData.places || [];
+    if (places.length === 0) return [];
+
+    const geocoder = await this.getGeocoder();
+    const resolved: ResolvedPin[] = [];
+
+    for (const place of places) {
+      try {
+        const location = await geocoder(place.place);
+        if (!location) {
+          mapData.diagnostics.push(
+            errorDiagnostic(
+              "place-not-found",
+              `Place not found: ${place.place}`,
+              {
+                line: place.line,
+                fix: this.settings.useNominatim
+                  ? "Check the spelling, or add the place to your gazetteer file"
+                  : "Check the spelling, add the place to your gazetteer file or turn on online lookups",
+              }
+            )
+          );
+          continue;
+        }
+
+        resolved.push({
+          pin: {
+            ...location,
+            ...place.pin,
+            notation: { format: "place", text: place.place },
+            line: place.line,
+          },
+          index: place.index,
+          line: place.line,
+        });
+      } catch (error) {
+        mapData.diagnostics.push(
+          errorDiagnostic(
+            "geocoder-error",
+            `${place.place}: ${error instanceof Error ? error.message : "Lookup failed"}`,
+            { line: place.line }
+          )
+        );
+      }
+    }
+
+    return resolved;
+  }
+
   private refreshAllMaps() {
     this.mapInstances.forEach((instance) => {
       try {
@@ -143,70 +511,280 @@ export default class MapPlugin extends Plugin {
         console.warn("Error refreshing map:", error);
       }
     });
+
+    this.app.workspace.getLeavesOfType(VIEW_TYPE_NOTE_MAP).forEach((leaf) => {
+      if (leaf.view instanceof NoteMapView) {
+        leaf.view.render();
+      }
+    });
+  }
+
+  /**
+   * Show the note map, reusing an open one if there is one
+   */
+  private async openNoteMap() {
+    const { workspace } = this.app;
+    const leaf =
+      workspace.getLeavesOfType(VIEW_TYPE_NOTE_MAP)[0] ??
+      workspace.getLeaf("tab");
+
+    await leaf.setViewState({ type: VIEW_TYPE_NOTE_MAP, active: true });
+    workspace.revealLeaf(leaf);
   }
 
-  private async processMap(source: string, el: HTMLElement) {
-    const parseResult = parseMapSyntax(source);
-
-    // Show errors if any
-    if (parseResult.errors.length > 0) {
-      const errorDiv = el.createEl("div");
-      errorDiv.style.color = "var(--text-error)";
-      errorDiv.style.fontSize = "14px";
-      errorDiv.style.marginBottom = "8px";
-      errorDiv.style.fontFamily = "var(--font-monospace)";
-
-      parseResult.errors.forEach((error) => {
-        const errorLine = errorDiv.createEl("div");
-        errorLine.textContent = "⚠ " + error;
-        errorLine.style.marginBottom = "4px";
+  /**
+   * Show a block's diagnostics above the map
+   * Entries with a line number move the editor cursor to that line when clicked.
+   */
+  private renderDiagnostics(
+    el: HTMLElement,
+    diagnostics: MapDiagnostic[],
+    ctx: MarkdownPostProcessorContext
+  ) {
+    const errorDiv = el.createEl("div");
+    errorDiv.style.fontSize = "14px";
+    errorDiv.style.marginBottom = "8px";
+    errorDiv.style.fontFamily = "var(--font-monospace)";
+
+    diagnostics.forEach((diagnostic) => {
+      const errorLine = errorDiv.createEl("div");
+      errorLine.textContent = "⚠ " + formatDiagnostic(diagnostic);
+      errorLine.title = diagnostic.code;
+      errorLine.style.marginBottom = "4px";
+      errorLine.style.color =
+        diagnostic.severity === "warning"
+          ? "var(--text-warning)"
+          : "var(--text-error)";
+
+      if (diagnostic.fix) {
+        const fixLine = errorLine.createEl("div");
+        fixLine.textContent = diagnostic.fix;
+        fixLine.style.color = "var(--text-muted)";
+        fixLine.style.fontSize = "12px";
+        fixLine.style.paddingLeft = "1.5em";
+      }
+
+      if (diagnostic.line) {
+        errorLine.style.cursor = "pointer";
+        errorLine.addEventListener("click", (event) => {
+          // Keep live preview from opening the whole block for editing
+          event.preventDefault();
+          event.stopPropagation();
+          this.jumpToDiagnostic(el, ctx, diagnostic);
+        });
+      }
+    });
+  }
+
+  /**
+   * Move the editor cursor to the line and column a diagnostic refers to,
+   * switching the note to editing mode if it is being read
+   */
+  private async jumpToDiagnostic(
+    el: HTMLElement,
+    ctx: MarkdownPostProcessorContext,
+    diagnostic: MapDiagnostic
+  ) {
+    const section = ctx.getSectionInfo(el);
+    const leaf = this.app.workspace
+      .getLeavesOfType("markdown")
+      .find(
+        (leaf) =>
+          leaf.view instanceof MarkdownView &&
+          leaf.view.file?.path === ctx.sourcePath
+      );
+    if (!section || !diagnostic.line || !leaf) return;
+
+    const view = leaf.view as MarkdownView;
+    if (view.getMode() === "preview") {
+      await view.setState(
+        { ...view.getState(), mode: "source" },
+        { history: false }
+      );
+    }
+
+    // The block's first line sits just below its opening fence
+    const position = {
+      line: section.lineStart + diagnostic.line,
+      ch: (diagnostic.column ?? 1) - 1,
+    };
+    this.app.workspace.setActiveLeaf(leaf, { focus: true });
+    view.editor.setCursor(position);
+    view.editor.scrollIntoView({ from: position, to: position }, true);
+    view.editor.focus();
+  }
+
+  /**
+   * Write a change made in a map's edit mode back to its block
+   * The note then renders the block again, in edit mode and with the same view.
+   * When the write fails the block is no longer remembered as being edited, as
+   * it may have moved and another block could take its place.
+   */
+  private async writePinEdit(
+    el: HTMLElement,
+    ctx: MarkdownPostProcessorContext,
+    source: string,
+    edit: PinEdit,
+    view: MapViewState
+  ) {
+    const section = ctx.getSectionInfo(el);
+    const file = this.app.vault.getFileByPath(ctx.sourcePath);
+    if (!section || !file) {
+      new Notice("Could not find this map's block in the note");
+      return;
+    }
+
+    const editKey = `${ctx.sourcePath}:${section.lineStart}`;
+    this.editingMaps.set(editKey, view);
+    let written = false;
+    try {
+      await this.app.vault.process(file, (data) => {
+        const lines = data.split("\n");
+        const blockStart = section.lineStart + 1;
+        const blockLength = section.lineEnd - blockStart;
+        if (lines.slice(blockStart, section.lineEnd).join("\n") !== source) {
+          throw new Error("the block has changed since the map was drawn");
+        }
+
+        lines.splice(blockStart, blockLength, applyPinEdit(source, edit));
+        return lines.join("\n");
       });
+      written = true;
+    } catch (error) {
+      new Notice(
+        `Could not edit the map: ${error instanceof Error ? error.message : "unknown error"}`
+      );
+    } finally {
+      if (!written) {
+        this.editingMaps.delete(editKey);
+      }
+    }
+  }
 
-      // If we have some valid pins, show them anyway
-      if (parseResult.pins.length === 0) {
+  /**
+   * Get the reference location for short Plus Codes from the settings, if set
+   */
+  private getPlusCodeReference(): { lat: number; lng: number } | undefined {
+    if (!this.settings.plusCodeReference) return undefined;
+
+    try {
+      return parseReferenceLocation(this.settings.plusCodeReference);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private async processMap(
+    source: string,
+    el: HTMLElement,
+    ctx: MarkdownPostProcessorContext
+  ) {
+    const parseResult = parseMapSyntax(source, {
+      plusCodeReference: this.getPlusCodeReference(),
+    });
+    insertResolvedPins(parseResult, [
+      ...(await this.resolveNoteLinks(parseResult, ctx.sourcePath)),
+      ...(await this.resolvePlaces(parseResult)),
+    ]);
+    await loadLinkedFiles(parseResult, this.app.vault, (path) =>
+      this.app.metadataCache.getFirstLinkpathDest(path, ctx.sourcePath)
+    );
+
+    const notePredicate = parseBlockQuery(parseResult);
+    let mapData = notePredicate
+      ? this.getQueryMapData(parseResult, notePredicate)
+      : parseResult;
+    this.checkIcons(mapData, ctx.sourcePath);
+    this.checkLayers(mapData);
+
+    // Show errors and warnings if any
+    if (mapData.diagnostics.length > 0) {
+      this.renderDiagnostics(el, mapData.diagnostics, ctx);
+
+      // If we have some valid pins or shapes, show them anyway
+      // Query maps stay up so they can show notes that gain a location later
+      if (!getFirstPoint(mapData) && !notePredicate) {
         return;
       }
     }
 
-    if (parseResult.pins.length === 0) {
+    if (!getFirstPoint(mapData) && !notePredicate) {
       el.createEl("div", {
         text: "No valid coordinates found. Use format: [lat, lng] label",
       });
       return;
     }
 
-    const initialCenter = [parseResult.pins[0].lng, parseResult.pins[0].lat];
-
     // Create React container
     const reactContainer = el.createEl("div");
     reactContainer.style.overflow = "hidden";
     reactContainer.style.border = "1px solid var(--background-modifier-border)";
     reactContainer.style.borderRadius = "4px";
-    reactContainer.style.height = "400px";
-    reactContainer.style.width = "100%";
     reactContainer.style.position = "relative";
+    applyMapLayout(reactContainer, parseResult.config);
 
     // Create React root and render map component
     const root = createRoot(reactContainer);
 
+    // A block that was being edited comes back in edit mode, with the same view
+    const section = ctx.getSectionInfo(el);
+    const editKey = section && `${ctx.sourcePath}:${section.lineStart}`;
+    const editView = editKey ? this.editingMaps.get(editKey) : undefined;
+
     // Create render function that uses current settings
     const renderFunction = () => {
+      const firstPoint = getFirstPoint(mapData);
+      if (!firstPoint) {
+        root.render(
+          React.createElement(
+            "div",
+            { style: { padding: "16px", color: "var(--text-muted)" } },
+            "No notes with a location match this query"
+          )
+        );
+        return;
+      }
+
+      const initialCenter: [number, number] = [firstPoint.lng, firstPoint.lat];
+      const currentData = mapData;
       root.render(
         React.createElement(MapComponent, {
-          pins: parseResult.pins,
-          initialCenter: initialCenter as [number, number],
+          pins: currentData.pins,
+          polylines: currentData.polylines,
+          polygons: currentData.polygons,
+          initialCenter,
           initialZoom: this.settings.defaultZoom,
           pinSize: this.settings.pinSize,
           defaultPinColor: this.settings.defaultPinColor,
+          basemaps: this.settings.basemaps,
+          overlays: this.settings.overlays,
+          height: "100%",
+          compact: currentData.config?.inline,
           app: this.app,
-          mapConfig: parseResult.config,
+          sourcePath: ctx.sourcePath,
+          mapConfig: editView
+            ? { ...currentData.config, ...editView }
+            : currentData.config,
+          onEditPin: isEditableBlock(source)
+            ? (edit: PinEdit, view: MapViewState) =>
+                this.writePinEdit(el, ctx, source, edit, view)
+            : undefined,
+          editing: !!editKey && this.editingMaps.has(editKey),
+          onEditingChange: (editing: boolean) => {
+            if (!editKey) return;
+            if (editing) {
+              this.editingMaps.set(editKey, undefined);
+            } else {
+              this.editingMaps.delete(editKey);
+            }
+          },
           onOpenModal: () => {
             const modal = new MapModal(
               this.app,
-              parseResult.pins,
-              initialCenter as [number, number],
+              currentData,
+              initialCenter,
               this.settings,
-              parseResult.config
+              ctx.sourcePath
             );
             modal.open();
           },
@@ -214,11 +792,23 @@ export default class MapPlugin extends Plugin {
       );
     };
 
+    // Re-run the query when notes change, re-rendering only if the pins moved
+    const refreshNotes = notePredicate
+      ? () => {
+          const updated = this.getQueryMapData(parseResult, notePredicate);
+          if (JSON.stringify(updated.pins) !== JSON.stringify(mapData.pins)) {
+            mapData = updated;
+            renderFunction();
+          }
+        }
+      : undefined;
+
     // Store the map instance for future updates
     const mapInstance: MapInstance = {
       root,
       element: reactContainer,
       renderFunction,
+      refreshNotes,
     };
     this.mapInstances.set(reactContainer, mapInstance);
 
@@ -250,6 +840,88 @@ export default class MapPlugin extends Plugin {
   }
 }
 
+function isReferenceLocation(value: string): boolean {
+  try {
+    parseReferenceLocation(value);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Size and place a block's map container from its height, width, aspectRatio,
+ * align, float and inline settings
+ * Inline maps default to a compact 300 by 200 pixels; other maps fill the note's
+ * width and are 400 pixels high. A height takes precedence over an aspect ratio.
+ */
+function applyMapLayout(container: HTMLElement, config: MapConfig = {}) {
+  const defaultWidth = config.inline ? "300px" : "100%";
+  const defaultHeight = config.inline ? "200px" : "400px";
+
+  container.style.width = config.width ?? defaultWidth;
+  container.style.maxWidth = "100%";
+  if (config.height || !config.aspectRatio) {
+    container.style.height = config.height ?? defaultHeight;
+  } else {
+    container.style.aspectRatio = String(config.aspectRatio);
+  }
+
+  if (config.float) {
+    container.style.float = config.float;
+    container.style.margin =
+      config.float === "left" ? "0 16px 8px 0" : "0 0 8px 16px";
+  } else if (config.align) {
+    container.style.marginLeft = config.align === "left" ? "0" : "auto";
+    container.style.marginRight = config.align === "right" ? "0" : "auto";
+  }
+}
+
+/**
+ * Add pins that were looked up after parsing to the block's pins in the order
+ * they were written
+ */
+function insertResolvedPins(mapData: ParsedMapData, resolved: ResolvedPin[]) {
+  resolved.sort((a, b) => a.index - b.index || a.line - b.line);
+
+  // Insert from the end so the earlier positions still line up
+  for (const { pin, index } of resolved.reverse()) {
+    mapData.pins.splice(index, 0, pin);
+  }
+}
+
+/**
+ * Read the note query from a block's config, reporting an invalid query as an error
+ */
+function parseBlockQuery(mapData: ParsedMapData): NotePredicate | null {
+  try {
+    return parseNoteQuery(mapData.config || {});
+  } catch (error) {
+    mapData.diagnostics.push(
+      errorDiagnostic(
+        "invalid-query",
+        error instanceof Error ? error.message : "Invalid query",
+        {
+          fix: 'Use #tags and "folders" in from, and property = value in where',
+        }
+      )
+    );
+    return null;
+  }
+}
+
+/**
+ * Find the first location in the parsed data, used as the initial map center
+ */
+function getFirstPoint(
+  mapData: ParsedMapData
+): { lat: number; lng: number } | undefined {
+  if (mapData.pins.length > 0) return mapData.pins[0];
+
+  const shape = [...mapData.polylines, ...mapData.polygons][0];
+  return shape?.points[0];
+}
+
 class SettingTab extends PluginSettingTab {
   plugin: MapPlugin;
 
@@ -309,5 +981,97 @@ class SettingTab extends PluginSettingTab {
             }
           })
       );
+
+    new Setting(containerEl)
+      .setName("Basemaps")
+      .setDesc(
+        "Maps a block can show and switch between, one per line: name | tile URL | max zoom. The first is shown unless a block picks another with basemap: name."
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Satellite | http://localhost:8080/{z}/{x}/{y}.jpg")
+          .setValue(formatLayerList(this.plugin.settings.basemaps))
+          .onChange(async (value) => {
+            this.plugin.settings.basemaps = parseLayerList(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Overlays")
+      .setDesc(
+        "Layers that can be shown on top of the basemap, one per line like basemaps. A block shows some from the start with overlays: [name]."
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder(
+            "Hiking trails | https://tile.waymarkedtrails.org/hiking/{z}/{x}/{y}.png"
+          )
+          .setValue(formatLayerList(this.plugin.settings.overlays))
+          .onChange(async (value) => {
+            this.plugin.settings.overlays = parseLayerList(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Plus Code Reference")
+      .setDesc(
+        "City or lat, lng that short Plus Codes like Q257+HX are placed near, unless the block names a place. Reopen notes to apply."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Melbourne")
+          .setValue(this.plugin.settings.plusCodeReference)
+          .onChange(async (value) => {
+            // Only keep references that can be resolved
+            if (value === "" || isReferenceLocation(value)) {
+              this.plugin.settings.plusCodeReference = value;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Gazetteer File")
+      .setDesc(
+        "CSV file in the vault with places for [Place name] pins, one per line: name,country,country code,lat,lng and an optional region. Looked up before the bundled cities."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Maps/places.csv")
+          .setValue(this.plugin.settings.gazetteerPath)
+          .onChange(async (value) => {
+            this.plugin.settings.gazetteerPath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Online Place Lookup")
+      .setDesc(
+        "Look up places the gazetteer does not know with OpenStreetMap Nominatim. Places found are saved, so notes still render offline."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.useNominatim)
+          .onChange(async (value) => {
+            this.plugin.settings.useNominatim = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Saved Places")
+      .setDesc(
+        `${Object.keys(this.plugin.settings.geocodeCache).length} places found by lookups are saved. Clear them to look places up again.`
+      )
+      .addButton((button) =>
+        button.setButtonText("Clear").onClick(async () => {
+          this.plugin.settings.geocodeCache = {};
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
   }
 }
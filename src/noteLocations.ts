@@ -0,0 +1,120 @@
+import { errorDiagnostic } from "./diagnostics";
+import {
+  parseMapSyntax,
+  type MapPin,
+  type ParsedMapData,
+} from "./parseMapSyntax";
+
+// Frontmatter property that holds a note's coordinates
+export const LOCATION_PROPERTY = "location";
+
+export interface LocatedNote {
+  path: string;
+  title: string;
+  frontmatter?: Record<string, unknown>;
+  tags?: string[]; // Frontmatter and inline tags, with the leading #
+}
+
+/**
+ * Build a pin for every note that has a location property in its frontmatter
+ * Notes without the property are skipped; invalid values are reported as diagnostics.
+ * Pins are labelled with the note title and remember the note path so the map
+ * can open the note when its pin is clicked.
+ */
+export function collectNotePins(notes: LocatedNote[]): ParsedMapData {
+  const result: ParsedMapData = {
+    pins: [],
+    polylines: [],
+    polygons: [],
+    diagnostics: [],
+  };
+
+  for (const note of notes) {
+    const value = note.frontmatter?.[LOCATION_PROPERTY];
+    if (value === undefined || value === null || value === "") {
+      continue;
+    }
+
+    try {
+      const pin: MapPin = parseLocationProperty(value);
+      pin.label = note.title;
+      pin.notePath = note.path;
+      result.pins.push(pin);
+    } catch (error) {
+      result.diagnostics.push(
+        errorDiagnostic(
+          "invalid-location",
+          `${note.path}: ${error instanceof Error ? error.message : "Invalid location"}`
+        )
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find where a note is: its location property, or else the first pin of the
+ * first map block in its content
+ * Returns null when the note has neither.
+ */
+export function findNoteLocation(
+  frontmatter: Record<string, unknown> | undefined,
+  content: string
+): { lat: number; lng: number } | null {
+  const value = frontmatter?.[LOCATION_PROPERTY];
+  if (value !== undefined && value !== null && value !== "") {
+    return parseLocationProperty(value);
+  }
+
+  const mapBlock = content.match(/^```map[^\S\n]*\n([\s\S]*?)^```/m);
+  const firstPin = mapBlock && parseMapSyntax(mapBlock[1]).pins[0];
+  return firstPin ? { lat: firstPin.lat, lng: firstPin.lng } : null;
+}
+
+/**
+ * Parse a location property value
+ * Supported formats:
+ * location: [40.7589, -73.9851]
+ * location: ["40.7589", "-73.9851"]
+ * location: "40.7589, -73.9851"
+ */
+export function parseLocationProperty(value: unknown): {
+  lat: number;
+  lng: number;
+} {
+  let parts: unknown[];
+  if (Array.isArray(value)) {
+    // A single-item list like ["40.7589, -73.9851"] holds both numbers in one string
+    parts =
+      value.length === 1 && typeof value[0] === "string"
+        ? value[0].split(",")
+        : value;
+  } else if (typeof value === "string") {
+    parts = value.replace(/^\s*\[|\]\s*$/g, "").split(",");
+  } else {
+    throw new Error("Invalid location: use [lat, lng]");
+  }
+
+  if (parts.length !== 2) {
+    throw new Error("Invalid location: use [lat, lng]");
+  }
+
+  const [lat, lng] = parts.map((part) =>
+    typeof part === "number" ? part : parseFloat(String(part).trim())
+  );
+
+  if (isNaN(lat) || isNaN(lng)) {
+    throw new Error("Invalid location: use [lat, lng]");
+  }
+
+  if (lat < -90 || lat > 90) {
+    throw new Error("Latitude must be between -90 and 90");
+  }
+
+  if (lng < -180 || lng > 180) {
+    throw new Error("Longitude must be between -180 and 180");
+  }
+
+  return { lat, lng };
+}
@@ -0,0 +1,327 @@
+import type { LocatedNote } from "./noteLocations";
+
+export type NotePredicate = (note: LocatedNote) => boolean;
+
+interface Token {
+  type: "tag" | "string" | "word" | "operator" | "paren";
+  value: string;
+}
+
+interface TokenStream {
+  tokens: Token[];
+  position: number;
+}
+
+type QueryValue = string | number | boolean | null;
+
+const COMPARISON_OPERATORS = ["=", "==", "!=", "<", "<=", ">", ">="];
+
+/**
+ * Build a predicate that selects notes for a query-driven map block
+ * Returns null when the block has no query. Both parts must match when given.
+ *
+ * from: which notes to look at, by tag or folder
+ *   from: #travel
+ *   from: #travel and "Trips/2026"
+ *   from: ("Trips" or #trip) and -#cancelled
+ *
+ * where: conditions on frontmatter properties
+ *   where: visited = true
+ *   where: rating >= 4 and country != "France"
+ *   where: companions = Sam (matches if the list contains Sam)
+ *   where: !visited
+ */
+export function parseNoteQuery(query: {
+  from?: string;
+  where?: string;
+}): NotePredicate | null {
+  const predicates: NotePredicate[] = [];
+
+  if (query.from) {
+    predicates.push(parseQuery(query.from, "from", parseSourceTerm));
+  }
+
+  if (query.where) {
+    predicates.push(parseQuery(query.where, "where", parseConditionTerm));
+  }
+
+  if (predicates.length === 0) {
+    return null;
+  }
+
+  return (note) => predicates.every((predicate) => predicate(note));
+}
+
+function parseQuery(
+  source: string,
+  name: string,
+  parseTerm: (stream: TokenStream) => NotePredicate
+): NotePredicate {
+  try {
+    const stream: TokenStream = { tokens: tokenize(source), position: 0 };
+    const predicate = parseOr(stream, parseTerm);
+
+    const extra = stream.tokens[stream.position];
+    if (extra) {
+      throw new Error(`Unexpected "${extra.value}"`);
+    }
+
+    return predicate;
+  } catch (error) {
+    throw new Error(
+      `Invalid ${name} query: ${error instanceof Error ? error.message : source}`
+    );
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char });
+      index++;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) {
+        throw new Error(`Missing closing ${char}`);
+      }
+      tokens.push({ type: "string", value: source.substring(index + 1, end) });
+      index = end + 1;
+    } else if (char === "#") {
+      const match = source.substring(index).match(/^#[^\s()]+/);
+      if (!match) {
+        throw new Error("Empty tag");
+      }
+      tokens.push({ type: "tag", value: match[0] });
+      index += match[0].length;
+    } else if (char === "-" && /["'#(]/.test(source[index + 1] || "")) {
+      // A leading minus negates a tag, folder or group: -#cancelled
+      tokens.push({ type: "operator", value: "!" });
+      index++;
+    } else if ("!=<>".includes(char)) {
+      const [operator] = source
+        .substring(index)
+        .match(/^(==|!=|<=|>=|[!=<>])/) || [char];
+      tokens.push({ type: "operator", value: operator });
+      index += operator.length;
+    } else {
+      const [word] = source.substring(index).match(/^[^\s()"'!=<>]+/) || [char];
+      tokens.push({ type: "word", value: word });
+      index += word.length;
+    }
+  }
+
+  return tokens;
+}
+
+function parseOr(
+  stream: TokenStream,
+  parseTerm: (stream: TokenStream) => NotePredicate
+): NotePredicate {
+  let predicate = parseAnd(stream, parseTerm);
+  while (consumeKeyword(stream, "or")) {
+    const left = predicate;
+    const right = parseAnd(stream, parseTerm);
+    predicate = (note) => left(note) || right(note);
+  }
+  return predicate;
+}
+
+function parseAnd(
+  stream: TokenStream,
+  parseTerm: (stream: TokenStream) => NotePredicate
+): NotePredicate {
+  let predicate = parseUnary(stream, parseTerm);
+  while (consumeKeyword(stream, "and")) {
+    const left = predicate;
+    const right = parseUnary(stream, parseTerm);
+    predicate = (note) => left(note) && right(note);
+  }
+  return predicate;
+}
+
+function parseUnary(
+  stream: TokenStream,
+  parseTerm: (stream: TokenStream) => NotePredicate
+): NotePredicate {
+  const token = stream.tokens[stream.position];
+  if (!token) {
+    throw new Error("Unexpected end of query");
+  }
+
+  const negated =
+    (token.type === "operator" && token.value === "!") ||
+    (token.type === "word" && token.value.toLowerCase() === "not");
+  if (negated) {
+    stream.position++;
+    const operand = parseUnary(stream, parseTerm);
+    return (note) => !operand(note);
+  }
+
+  if (token.type === "paren" && token.value === "(") {
+    stream.position++;
+    const inner = parseOr(stream, parseTerm);
+    const closing = stream.tokens[stream.position];
+    if (!closing || closing.value !== ")") {
+      throw new Error("Missing closing )");
+    }
+    stream.position++;
+    return inner;
+  }
+
+  return parseTerm(stream);
+}
+
+/**
+ * Parse a tag (#travel) or folder ("Trips/2026") in a from query
+ * Tags also match their nested tags, so #travel matches #travel/japan.
+ */
+function parseSourceTerm(stream: TokenStream): NotePredicate {
+  const token = stream.tokens[stream.position++];
+
+  if (token.type === "tag") {
+    const tag = token.value.toLowerCase();
+    return (note) =>
+      (note.tags || []).some((noteTag) => {
+        const normalized = noteTag.toLowerCase();
+        return normalized === tag || normalized.startsWith(tag + "/");
+      });
+  }
+
+  if (token.type === "string") {
+    const folder = token.value.replace(/^\/+|\/+$/g, "");
+    return (note) =>
+      folder === "" ||
+      note.path.startsWith(folder + "/") ||
+      note.path === folder ||
+      note.path === folder + ".md";
+  }
+
+  throw new Error(`Expected a #tag or "folder" but found "${token.value}"`);
+}
+
+/**
+ * Parse a property condition in a where query: key, key = value or key > value
+ */
+function parseConditionTerm(stream: TokenStream): NotePredicate {
+  const keyToken = stream.tokens[stream.position++];
+  if (keyToken.type !== "word" && keyToken.type !== "string") {
+    throw new Error(`Expected a property name but found "${keyToken.value}"`);
+  }
+  const key = keyToken.value;
+
+  const operatorToken = stream.tokens[stream.position];
+  if (
+    !operatorToken ||
+    operatorToken.type !== "operator" ||
+    !COMPARISON_OPERATORS.includes(operatorToken.value)
+  ) {
+    // A bare property name matches notes where the property is set and truthy
+    return (note) => isTruthy(note.frontmatter?.[key]);
+  }
+  stream.position++;
+
+  const valueToken = stream.tokens[stream.position++];
+  if (
+    !valueToken ||
+    valueToken.type === "paren" ||
+    valueToken.type === "operator"
+  ) {
+    throw new Error(`Expected a value after ${key} ${operatorToken.value}`);
+  }
+  const expected = parseQueryValue(valueToken);
+  const operator = operatorToken.value;
+
+  return (note) => {
+    const actual = note.frontmatter?.[key];
+
+    // List properties match when any item matches, and != when none do
+    if (Array.isArray(actual)) {
+      return operator === "!="
+        ? !actual.some((item) => compareValues(item, "=", expected))
+        : actual.some((item) => compareValues(item, operator, expected));
+    }
+
+    return compareValues(actual, operator, expected);
+  };
+}
+
+function parseQueryValue(token: Token): QueryValue {
+  if (token.type !== "word") {
+    return token.value;
+  }
+
+  const lower = token.value.toLowerCase();
+  if (lower === "true") return true;
+  if (lower === "false") return false;
+  if (lower === "null") return null;
+
+  const number = Number(token.value);
+  return isNaN(number) ? token.value : number;
+}
+
+/**
+ * Compare a frontmatter value with a query value
+ * Numbers compare numerically, strings compare without regard to case.
+ */
+function compareValues(
+  actual: unknown,
+  operator: string,
+  expected: QueryValue
+): boolean {
+  const isEmpty = actual === undefined || actual === null;
+  if (isEmpty || expected === null) {
+    const equal = isEmpty && expected === null;
+    return operator === "!=" ? !equal : equal && operator.includes("=");
+  }
+
+  let left: string | number | boolean;
+  let right: string | number | boolean;
+  if (typeof expected === "number" && !isNaN(Number(actual))) {
+    left = Number(actual);
+    right = expected;
+  } else if (typeof expected === "boolean" && typeof actual === "boolean") {
+    left = actual;
+    right = expected;
+  } else {
+    left = String(actual).toLowerCase();
+    right = String(expected).toLowerCase();
+  }
+
+  switch (operator) {
+    case "=":
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    default:
+      return false;
+  }
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function consumeKeyword(stream: TokenStream, keyword: string): boolean {
+  const token = stream.tokens[stream.position];
+  if (token && token.type === "word" && token.value.toLowerCase() === keyword) {
+    stream.position++;
+    return true;
+  }
+  return false;
+}
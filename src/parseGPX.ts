@@ -0,0 +1,181 @@
+import { errorDiagnostic } from "./diagnostics";
+import type { MapPin, MapPolyline, ParsedMapData } from "./parseMapSyntax";
+import {
+  findChild,
+  findChildren,
+  getChildText,
+  parseXmlDocument,
+} from "./xmlElements";
+
+/**
+ * Parse a GPX file into pins and lines
+ * - Waypoints (<wpt>) become pins labelled with their <name>
+ * - Each track segment (<trk><trkseg>) becomes a line labelled with the track name
+ * - Routes (<rte>) become dashed lines, since they are planned rather than recorded
+ *
+ * Line color and width are read from the gpx_style extension when present:
+ * <extensions><line><color>ff0000</color><width>4</width></line></extensions>
+ */
+export function parseGPX(source: string): ParsedMapData {
+  const result: ParsedMapData = {
+    pins: [],
+    polylines: [],
+    polygons: [],
+    diagnostics: [],
+  };
+
+  const xmlDocument = parseXmlDocument(source);
+  if (!xmlDocument) {
+    result.diagnostics.push(
+      errorDiagnostic("invalid-gpx", "Invalid GPX: could not parse XML")
+    );
+    return result;
+  }
+
+  const gpx = findChild(xmlDocument, "gpx");
+  if (!gpx) {
+    result.diagnostics.push(
+      errorDiagnostic("invalid-gpx", "Invalid GPX: missing <gpx> element")
+    );
+    return result;
+  }
+
+  for (const [waypointIndex, waypoint] of findChildren(gpx, "wpt").entries()) {
+    try {
+      result.pins.push(parseWaypoint(waypoint));
+    } catch (error) {
+      result.diagnostics.push(
+        errorDiagnostic(
+          "invalid-waypoint",
+          `Waypoint ${waypointIndex + 1}: ${error instanceof Error ? error.message : "Invalid waypoint"}`
+        )
+      );
+    }
+  }
+
+  for (const [trackIndex, track] of findChildren(gpx, "trk").entries()) {
+    try {
+      for (const segment of findChildren(track, "trkseg")) {
+        const polyline = parsePath(track, findChildren(segment, "trkpt"));
+        if (polyline) {
+          result.polylines.push(polyline);
+        }
+      }
+    } catch (error) {
+      result.diagnostics.push(
+        errorDiagnostic(
+          "invalid-track",
+          `Track ${trackIndex + 1}: ${error instanceof Error ? error.message : "Invalid track"}`
+        )
+      );
+    }
+  }
+
+  for (const [routeIndex, route] of findChildren(gpx, "rte").entries()) {
+    try {
+      const polyline = parsePath(route, findChildren(route, "rtept"));
+      if (polyline) {
+        polyline.dash = "dashed";
+        result.polylines.push(polyline);
+      }
+    } catch (error) {
+      result.diagnostics.push(
+        errorDiagnostic(
+          "invalid-route",
+          `Route ${routeIndex + 1}: ${error instanceof Error ? error.message : "Invalid route"}`
+        )
+      );
+    }
+  }
+
+  return result;
+}
+
+function parseWaypoint(waypoint: Element): MapPin {
+  const pin: MapPin = parsePoint(waypoint);
+
+  const name = getChildText(waypoint, "name");
+  if (name) {
+    pin.label = name;
+  }
+
+  const description =
+    getChildText(waypoint, "desc") || getChildText(waypoint, "cmt");
+  if (description) {
+    pin.description = description;
+  }
+
+  const link = findChild(waypoint, "link")?.getAttribute("href");
+  if (link) {
+    pin.link = link;
+  }
+
+  return pin;
+}
+
+/**
+ * Build a line from a track segment or route, taking the name, description
+ * and style from the parent track or route element
+ * Returns null for paths with fewer than two points, which cannot be drawn.
+ */
+function parsePath(
+  parent: Element,
+  pointElements: Element[]
+): MapPolyline | null {
+  const points = pointElements.map(parsePoint);
+  if (points.length < 2) {
+    return null;
+  }
+
+  const polyline: MapPolyline = { points };
+
+  const name = getChildText(parent, "name");
+  if (name) {
+    polyline.label = name;
+  }
+
+  const description = getChildText(parent, "desc");
+  if (description) {
+    polyline.description = description;
+  }
+
+  const link = findChild(parent, "link")?.getAttribute("href");
+  if (link) {
+    polyline.link = link;
+  }
+
+  const extensions = findChild(parent, "extensions");
+  const lineStyle = extensions && findChild(extensions, "line");
+  if (lineStyle) {
+    const color = getChildText(lineStyle, "color");
+    if (color && /^[0-9a-f]{6}$/i.test(color)) {
+      polyline.color = `#${color}`;
+    }
+
+    const width = parseFloat(getChildText(lineStyle, "width") || "");
+    if (width > 0) {
+      polyline.width = width;
+    }
+  }
+
+  return polyline;
+}
+
+function parsePoint(element: Element): { lat: number; lng: number } {
+  const lat = parseFloat(element.getAttribute("lat") || "");
+  const lng = parseFloat(element.getAttribute("lon") || "");
+
+  if (isNaN(lat) || isNaN(lng)) {
+    throw new Error("Invalid coordinates");
+  }
+
+  if (lat < -90 || lat > 90) {
+    throw new Error("Latitude must be between -90 and 90");
+  }
+
+  if (lng < -180 || lng > 180) {
+    throw new Error("Longitude must be between -180 and 180");
+  }
+
+  return { lat, lng };
+}
@@ -0,0 +1,240 @@
+import {
+  applyPinAttributes,
+  applyPolygonAttributes,
+  applyPolylineAttributes,
+} from "./applyAttributes";
+import { errorDiagnostic } from "./diagnostics";
+import type {
+  MapPin,
+  MapPolygon,
+  MapPolyline,
+  ParsedMapData,
+} from "./parseMapSyntax";
+
+/**
+ * Parse GeoJSON into pins, lines and polygons
+ * Accepts a FeatureCollection, a single Feature or a bare geometry.
+ * Feature properties map onto the same fields as the bracket syntax:
+ * - label: "label", "name" or "title"
+ * - pins: color ("color" or "marker-color"), icon ("icon" or "marker-symbol"),
+ *   radius, weight
+ * - lines: color ("color" or "stroke"), width ("width" or "stroke-width"), dash
+ * - polygons: fill, opacity ("opacity" or "fill-opacity"), stroke, width ("width" or "stroke-width")
+ * - all: group, description, link
+ *
+ * Polygon holes are not drawn; only the outer ring of each polygon is used.
+ */
+export function parseGeoJSON(source: string | object): ParsedMapData {
+  const result: ParsedMapData = {
+    pins: [],
+    polylines: [],
+    polygons: [],
+    diagnostics: [],
+  };
+
+  let geojson: unknown;
+  try {
+    geojson = typeof source === "string" ? JSON.parse(source) : source;
+  } catch (error) {
+    result.diagnostics.push(
+      errorDiagnostic(
+        "invalid-geojson",
+        "Invalid GeoJSON: could not parse JSON"
+      )
+    );
+    return result;
+  }
+
+  if (!isRecord(geojson)) {
+    result.diagnostics.push(
+      errorDiagnostic("invalid-geojson", "Invalid GeoJSON: expected an object")
+    );
+    return result;
+  }
+
+  const features: unknown[] =
+    geojson.type === "FeatureCollection"
+      ? Array.isArray(geojson.features)
+        ? geojson.features
+        : []
+      : geojson.type === "Feature"
+        ? [geojson]
+        : [{ type: "Feature", geometry: geojson, properties: {} }];
+
+  for (const [featureIndex, feature] of features.entries()) {
+    try {
+      if (!isRecord(feature) || !feature.geometry) {
+        continue; // Features without geometry have nothing to draw
+      }
+
+      addGeometry(
+        result,
+        feature.geometry,
+        isRecord(feature.properties) ? feature.properties : {}
+      );
+    } catch (error) {
+      result.diagnostics.push(
+        errorDiagnostic(
+          "invalid-feature",
+          `Feature ${featureIndex + 1}: ${error instanceof Error ? error.message : "Invalid feature"}`
+        )
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a GeoJSON geometry into pins, lines and polygons and add them to the result
+ */
+function addGeometry(
+  result: ParsedMapData,
+  geometry: unknown,
+  properties: Record<string, unknown>
+): void {
+  if (!isRecord(geometry)) {
+    throw new Error("Invalid geometry");
+  }
+
+  switch (geometry.type) {
+    case "Point":
+      result.pins.push(toPin(geometry.coordinates, properties));
+      break;
+    case "MultiPoint":
+      for (const position of asArray(geometry.coordinates)) {
+        result.pins.push(toPin(position, properties));
+      }
+      break;
+    case "LineString":
+      result.polylines.push(toPolyline(geometry.coordinates, properties));
+      break;
+    case "MultiLineString":
+      for (const line of asArray(geometry.coordinates)) {
+        result.polylines.push(toPolyline(line, properties));
+      }
+      break;
+    case "Polygon":
+      result.polygons.push(toPolygon(geometry.coordinates, properties));
+      break;
+    case "MultiPolygon":
+      for (const rings of asArray(geometry.coordinates)) {
+        result.polygons.push(toPolygon(rings, properties));
+      }
+      break;
+    case "GeometryCollection":
+      for (const child of asArray(geometry.geometries)) {
+        addGeometry(result, child, properties);
+      }
+      break;
+    default:
+      throw new Error(`Unsupported geometry type: ${String(geometry.type)}`);
+  }
+}
+
+function toPin(position: unknown, properties: Record<string, unknown>): MapPin {
+  const pin: MapPin = toPoint(position);
+
+  const label = getLabel(properties);
+  if (label) {
+    pin.label = label;
+  }
+
+  return applyPinAttributes(pin, {
+    ...properties,
+    color: properties.color ?? properties["marker-color"],
+    icon: properties.icon ?? properties["marker-symbol"],
+  });
+}
+
+function toPolyline(
+  positions: unknown,
+  properties: Record<string, unknown>
+): MapPolyline {
+  const points = asArray(positions).map(toPoint);
+  if (points.length < 2) {
+    throw new Error("A LineString needs at least 2 positions");
+  }
+
+  const polyline: MapPolyline = { points };
+
+  const label = getLabel(properties);
+  if (label) {
+    polyline.label = label;
+  }
+
+  return applyPolylineAttributes(polyline, {
+    ...properties,
+    color: properties.color ?? properties.stroke,
+    width: properties.width ?? properties["stroke-width"],
+  });
+}
+
+function toPolygon(
+  rings: unknown,
+  properties: Record<string, unknown>
+): MapPolygon {
+  const points = asArray(asArray(rings)[0]).map(toPoint);
+
+  // GeoJSON rings repeat the first position at the end; polygons close automatically
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.lat === last.lat && first.lng === last.lng) {
+    points.pop();
+  }
+
+  if (points.length < 3) {
+    throw new Error("A Polygon needs at least 3 distinct positions");
+  }
+
+  const polygon: MapPolygon = { points };
+
+  const label = getLabel(properties);
+  if (label) {
+    polygon.label = label;
+  }
+
+  return applyPolygonAttributes(polygon, {
+    ...properties,
+    opacity: properties.opacity ?? properties["fill-opacity"],
+    width: properties.width ?? properties["stroke-width"],
+  });
+}
+
+/**
+ * Convert a GeoJSON position ([lng, lat]) to a point
+ */
+function toPoint(position: unknown): { lat: number; lng: number } {
+  if (
+    !Array.isArray(position) ||
+    typeof position[0] !== "number" ||
+    typeof position[1] !== "number"
+  ) {
+    throw new Error("Invalid coordinates");
+  }
+
+  const [lng, lat] = position;
+
+  if (lat < -90 || lat > 90) {
+    throw new Error("Latitude must be between -90 and 90");
+  }
+
+  if (lng < -180 || lng > 180) {
+    throw new Error("Longitude must be between -180 and 180");
+  }
+
+  return { lat, lng };
+}
+
+function getLabel(properties: Record<string, unknown>): string | undefined {
+  const label = properties.label ?? properties.name ?? properties.title;
+  return typeof label === "string" && label ? label : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,488 @@
+import { strFromU8, unzipSync } from "fflate";
+import { errorDiagnostic } from "./diagnostics";
+import type {
+  MapPin,
+  MapPolygon,
+  MapPolyline,
+  ParsedMapData,
+} from "./parseMapSyntax";
+import {
+  findChild,
+  findChildren,
+  findDescendants,
+  getChildElements,
+  getChildText,
+  parseXmlDocument,
+} from "./xmlElements";
+
+interface KmlStyle {
+  iconColor?: string;
+  iconHref?: string;
+  lineColor?: string;
+  lineWidth?: number;
+  polyColor?: string;
+  polyOpacity?: number;
+  polyFill?: boolean;
+}
+
+interface PlacemarkProperties {
+  label?: string;
+  description?: string;
+  group?: string;
+  style: KmlStyle;
+}
+
+/**
+ * Parse a KML document (such as a Google My Maps export) into pins, lines and polygons
+ * - Placemarks with a Point become pins, LineStrings become lines and Polygons become polygons
+ * - The name of the Folder a Placemark sits in becomes its group
+ * - Shared styles (styleUrl, StyleMap) and inline styles set colors, widths and icons
+ */
+export function parseKML(source: string): ParsedMapData {
+  const result: ParsedMapData = {
+    pins: [],
+    polylines: [],
+    polygons: [],
+    diagnostics: [],
+  };
+
+  const xmlDocument = parseXmlDocument(source);
+  if (!xmlDocument) {
+    result.diagnostics.push(
+      errorDiagnostic("invalid-kml", "Invalid KML: could not parse XML")
+    );
+    return result;
+  }
+
+  const kml = findChild(xmlDocument, "kml");
+  if (!kml) {
+    result.diagnostics.push(
+      errorDiagnostic("invalid-kml", "Invalid KML: missing <kml> element")
+    );
+    return result;
+  }
+
+  const styles = collectStyles(kml);
+  let placemarkIndex = 0;
+
+  const visit = (container: Element, group?: string) => {
+    for (const child of getChildElements(container)) {
+      if (child.localName === "Folder") {
+        visit(child, getChildText(child, "name") || group);
+      } else if (child.localName === "Document") {
+        visit(child, group);
+      } else if (child.localName === "Placemark") {
+        placemarkIndex++;
+        try {
+          addPlacemark(result, child, {
+            label: getChildText(child, "name"),
+            description: getDescription(child),
+            group,
+            style: getPlacemarkStyle(child, styles),
+          });
+        } catch (error) {
+          result.diagnostics.push(
+            errorDiagnostic(
+              "invalid-placemark",
+              `Placemark ${placemarkIndex}: ${error instanceof Error ? error.message : "Invalid placemark"}`
+            )
+          );
+        }
+      }
+    }
+  };
+
+  visit(kml);
+
+  return result;
+}
+
+/**
+ * Parse a KMZ archive: a zip file holding a KML document and its images
+ * The first .kml file in the archive is used, preferring doc.kml.
+ */
+export function parseKMZ(data: Uint8Array): ParsedMapData {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, {
+      filter: (file) => file.name.toLowerCase().endsWith(".kml"),
+    });
+  } catch (error) {
+    return {
+      pins: [],
+      polylines: [],
+      polygons: [],
+      diagnostics: [
+        errorDiagnostic("invalid-kmz", "Invalid KMZ: could not unzip archive"),
+      ],
+    };
+  }
+
+  const names = Object.keys(files);
+  const documentName =
+    names.find((name) => name.toLowerCase() === "doc.kml") || names[0];
+  if (!documentName) {
+    return {
+      pins: [],
+      polylines: [],
+      polygons: [],
+      diagnostics: [
+        errorDiagnostic("invalid-kmz", "Invalid KMZ: no .kml file in archive"),
+      ],
+    };
+  }
+
+  return parseKML(strFromU8(files[documentName]));
+}
+
+function addPlacemark(
+  result: ParsedMapData,
+  placemark: Element,
+  properties: PlacemarkProperties
+): void {
+  const geometries = getGeometries(placemark);
+  if (geometries.length === 0) {
+    throw new Error("No supported geometry");
+  }
+
+  for (const geometry of geometries) {
+    if (geometry.localName === "Point") {
+      result.pins.push(toPin(geometry, properties));
+    } else if (geometry.localName === "LineString") {
+      result.polylines.push(toPolyline(geometry, properties));
+    } else if (geometry.localName === "Polygon") {
+      result.polygons.push(toPolygon(geometry, properties));
+    }
+  }
+}
+
+/**
+ * Get the Point, LineString and Polygon elements of a placemark,
+ * looking inside MultiGeometry containers
+ */
+function getGeometries(
+  element: Element,
+  geometries: Element[] = []
+): Element[] {
+  for (const child of getChildElements(element)) {
+    if (["Point", "LineString", "Polygon"].includes(child.localName)) {
+      geometries.push(child);
+    } else if (child.localName === "MultiGeometry") {
+      getGeometries(child, geometries);
+    }
+  }
+  return geometries;
+}
+
+function toPin(geometry: Element, properties: PlacemarkProperties): MapPin {
+  const points = parseCoordinates(getChildText(geometry, "coordinates"));
+  if (points.length === 0) {
+    throw new Error("Point has no coordinates");
+  }
+
+  const pin: MapPin = { ...points[0] };
+  applyCommonProperties(pin, properties);
+
+  const color = properties.style.iconColor;
+  if (color) {
+    pin.color = color;
+  }
+
+  const icon = getIconName(properties.style.iconHref);
+  if (icon) {
+    pin.icon = icon;
+  }
+
+  return pin;
+}
+
+function toPolyline(
+  geometry: Element,
+  properties: PlacemarkProperties
+): MapPolyline {
+  const points = parseCoordinates(getChildText(geometry, "coordinates"));
+  if (points.length < 2) {
+    throw new Error("A LineString needs at least 2 coordinates");
+  }
+
+  const polyline: MapPolyline = { points };
+  applyCommonProperties(polyline, properties);
+
+  if (properties.style.lineColor) {
+    polyline.color = properties.style.lineColor;
+  }
+  if (properties.style.lineWidth) {
+    polyline.width = properties.style.lineWidth;
+  }
+
+  return polyline;
+}
+
+function toPolygon(
+  geometry: Element,
+  properties: PlacemarkProperties
+): MapPolygon {
+  // Only the outer ring is drawn; holes (innerBoundaryIs) are ignored
+  const outerBoundary = findChild(geometry, "outerBoundaryIs");
+  const ring = outerBoundary && findChild(outerBoundary, "LinearRing");
+  const points = parseCoordinates(ring && getChildText(ring, "coordinates"));
+
+  // KML rings repeat the first coordinate at the end; polygons close automatically
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.lat === last.lat && first.lng === last.lng) {
+    points.pop();
+  }
+
+  if (points.length < 3) {
+    throw new Error("A Polygon needs at least 3 distinct coordinates");
+  }
+
+  const polygon: MapPolygon = { points };
+  applyCommonProperties(polygon, properties);
+
+  const { style } = properties;
+  if (style.polyColor) {
+    polygon.fill = style.polyColor;
+  }
+  if (style.polyOpacity !== undefined) {
+    polygon.opacity = style.polyOpacity;
+  }
+  if (style.polyFill === false) {
+    polygon.opacity = 0;
+  }
+  if (style.lineColor) {
+    polygon.stroke = style.lineColor;
+  }
+  if (style.lineWidth !== undefined) {
+    polygon.width = style.lineWidth;
+  }
+
+  return polygon;
+}
+
+function applyCommonProperties(
+  item: MapPin | MapPolyline | MapPolygon,
+  properties: PlacemarkProperties
+): void {
+  if (properties.label) {
+    item.label = properties.label;
+  }
+  if (properties.description) {
+    item.description = properties.description;
+  }
+  if (properties.group) {
+    item.group = properties.group;
+  }
+}
+
+/**
+ * Parse a KML coordinates string: whitespace separated "lng,lat[,alt]" tuples
+ */
+function parseCoordinates(text?: string): { lat: number; lng: number }[] {
+  if (!text) {
+    return [];
+  }
+
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => {
+      const [lng, lat] = tuple.split(",").map((value) => parseFloat(value));
+
+      if (isNaN(lat) || isNaN(lng)) {
+        throw new Error("Invalid coordinates");
+      }
+
+      if (lat < -90 || lat > 90) {
+        throw new Error("Latitude must be between -90 and 90");
+      }
+
+      if (lng < -180 || lng > 180) {
+        throw new Error("Longitude must be between -180 and 180");
+      }
+
+      return { lat, lng };
+    });
+}
+
+/**
+ * Get a placemark's description as plain text
+ * Google My Maps wraps descriptions in HTML, so line breaks are kept and tags are dropped.
+ */
+function getDescription(placemark: Element): string | undefined {
+  const description = getChildText(placemark, "description");
+  if (!description) {
+    return undefined;
+  }
+
+  const text = description
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * Collect every shared Style and StyleMap in the document, keyed by "#id"
+ * StyleMaps resolve to the style of their "normal" pair.
+ */
+function collectStyles(kml: Element): Record<string, KmlStyle> {
+  const styles: Record<string, KmlStyle> = {};
+
+  for (const style of findDescendants(kml, "Style")) {
+    const id = style.getAttribute("id");
+    if (id) {
+      styles[`#${id}`] = parseStyle(style);
+    }
+  }
+
+  for (const styleMap of findDescendants(kml, "StyleMap")) {
+    const id = styleMap.getAttribute("id");
+    if (!id) continue;
+
+    const normalPair = findChildren(styleMap, "Pair").find(
+      (pair) => getChildText(pair, "key") === "normal"
+    );
+    if (!normalPair) continue;
+
+    const inlineStyle = findChild(normalPair, "Style");
+    const styleUrl = getChildText(normalPair, "styleUrl");
+    const style = inlineStyle
+      ? parseStyle(inlineStyle)
+      : styles[normalizeStyleUrl(styleUrl)];
+    if (style) {
+      styles[`#${id}`] = style;
+    }
+  }
+
+  return styles;
+}
+
+/**
+ * Get the style for a placemark: its shared style with any inline style on top
+ */
+function getPlacemarkStyle(
+  placemark: Element,
+  styles: Record<string, KmlStyle>
+): KmlStyle {
+  const sharedStyle =
+    styles[normalizeStyleUrl(getChildText(placemark, "styleUrl"))] || {};
+  const inlineStyle = findChild(placemark, "Style");
+
+  return inlineStyle
+    ? { ...sharedStyle, ...parseStyle(inlineStyle) }
+    : sharedStyle;
+}
+
+// Style URLs may point into the same file ("#id") or name a file ("doc.kml#id")
+function normalizeStyleUrl(styleUrl?: string): string {
+  if (!styleUrl) return "";
+  const hashIndex = styleUrl.indexOf("#");
+  return hashIndex === -1 ? `#${styleUrl}` : styleUrl.substring(hashIndex);
+}
+
+function parseStyle(style: Element): KmlStyle {
+  const result: KmlStyle = {};
+
+  const iconStyle = findChild(style, "IconStyle");
+  if (iconStyle) {
+    const color = parseKmlColor(getChildText(iconStyle, "color"));
+    if (color) {
+      result.iconColor = color.hex;
+    }
+    const icon = findChild(iconStyle, "Icon");
+    const href = icon && getChildText(icon, "href");
+    if (href) {
+      result.iconHref = href;
+    }
+  }
+
+  const lineStyle = findChild(style, "LineStyle");
+  if (lineStyle) {
+    const color = parseKmlColor(getChildText(lineStyle, "color"));
+    if (color) {
+      result.lineColor = color.hex;
+    }
+    const width = parseFloat(getChildText(lineStyle, "width") || "");
+    if (!isNaN(width) && width >= 0) {
+      result.lineWidth = width;
+    }
+  }
+
+  const polyStyle = findChild(style, "PolyStyle");
+  if (polyStyle) {
+    const color = parseKmlColor(getChildText(polyStyle, "color"));
+    if (color) {
+      result.polyColor = color.hex;
+      result.polyOpacity = color.opacity;
+    }
+    if (getChildText(polyStyle, "fill") === "0") {
+      result.polyFill = false;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a KML color (aabbggrr hex) to a #rrggbb hex color and an opacity
+ */
+function parseKmlColor(
+  color?: string
+): { hex: string; opacity: number } | undefined {
+  if (!color || !/^[0-9a-f]{8}$/i.test(color)) {
+    return undefined;
+  }
+
+  const alpha = color.substring(0, 2);
+  const blue = color.substring(2, 4);
+  const green = color.substring(4, 6);
+  const red = color.substring(6, 8);
+
+  return {
+    hex: `#${red}${green}${blue}`.toLowerCase(),
+    opacity: Math.round((parseInt(alpha, 16) / 255) * 100) / 100,
+  };
+}
+
+// Keywords in common KML icon file names, mapped to the plugin's icon names
+const ICON_KEYWORDS: [RegExp, string][] = [
+  // Checked in order, so "homegardenbusiness" and "parking" are matched before "bus" and "park"
+  [/homegardenbusiness|home|house/, "home"],
+  [/cabs|car|parking/, "car"],
+  [/dining|restaurant|food/, "restaurant"],
+  [/coffee|cafe/, "cafe"],
+  [/lodging|hotel|bed/, "hotel"],
+  [/park|tree|forest/, "park"],
+  [/beach/, "beach"],
+  [/mountain|peak|summit/, "mountain"],
+  [/airport|plane|flight/, "airport"],
+  [/rail|train|tram/, "train"],
+  [/bus/, "bus"],
+  [/cycling|bike|bicycle/, "bike"],
+  [/hiker|hiking|walk|trail/, "walk"],
+  [/shopping|store|shop/, "shopping"],
+  [/museum|gallery/, "museum"],
+  [/church|worship/, "church"],
+  [/hospital|medical/, "hospital"],
+  [/school|university/, "school"],
+  [/office|building/, "office"],
+  [/caution|warning|hazard/, "warning"],
+  [/info/, "info"],
+  [/star/, "star"],
+  [/flag/, "flag"],
+  [/heart/, "heart"],
+];
+
+/**
+ * Map a KML icon image URL onto one of the plugin's icon names
+ * Example: http://maps.google.com/mapfiles/kml/shapes/dining.png -> restaurant
+ */
+function getIconName(href?: string): string | undefined {
+  if (!href) return undefined;
+
+  const fileName = (href.split("/").pop() || "").toLowerCase();
+  const match = ICON_KEYWORDS.find(([pattern]) => pattern.test(fileName));
+  return match?.[1];
+}
@@ -0,0 +1,484 @@
+import { isMap, isNode, isScalar, LineCounter, parseDocument } from "yaml";
+import {
+  errorDiagnostic,
+  warningDiagnostic,
+  type MapDiagnostic,
+} from "./diagnostics";
+import { findLocality } from "./localities";
+import { parseLocationProperty } from "./noteLocations";
+import { readIconAnchor } from "./pinIcons";
+import type { MapConfig, PinStyle } from "./parseMapSyntax";
+
+type LatLng = { lat: number; lng: number };
+
+// How each config key is read from YAML; a parser throws when the value has the wrong type
+const CONFIG_SCHEMA: {
+  [K in keyof MapConfig]-?: (value: unknown) => NonNullable<MapConfig[K]>;
+} = {
+  mapLayerURL: parseText,
+  basemap: parseText,
+  overlays: parseNameList,
+  labelsOnHover: parseBoolean,
+  geojson: parseFileList,
+  gpx: parseFileList,
+  kml: parseFileList,
+  from: parseText,
+  where: parseText,
+  center: parseLocation,
+  zoom: parseZoom,
+  minZoom: parseZoom,
+  maxZoom: parseZoom,
+  bounds: parseBounds,
+  height: parseHeight,
+  width: parseWidth,
+  aspectRatio: parseAspectRatio,
+  align: (value) => parseChoice(value, ["left", "center", "right"] as const),
+  float: (value) => parseChoice(value, ["left", "right"] as const),
+  inline: parseBoolean,
+  plusCodeReference: parseReferenceLocation,
+  mode: (value) => parseChoice(value, ["pins", "heatmap"] as const),
+  heatmapRadius: parsePixels,
+  heatmapBlur: parsePixels,
+  iconSize: parsePixels,
+  iconAnchor: parseIconAnchor,
+  cluster: parseCluster,
+  styles: (value) =>
+    parseStyleMap(value, ["color", "icon", "group"], "museum: { color: blue }"),
+  groups: (value) =>
+    parseStyleMap(value, ["color", "icon"], "Food: { icon: restaurant }"),
+};
+
+const CONFIG_KEYS = Object.keys(CONFIG_SCHEMA) as (keyof MapConfig)[];
+
+// Queries are kept exactly as written: # starts a YAML comment and quotes mark folders
+const RAW_KEYS = ["from", "where"];
+
+// File lists may hold several [[links]] on one line, which is not valid YAML
+const FILE_LIST_KEYS = ["geojson", "gpx", "kml"];
+
+const MAX_ZOOM = 28;
+
+// Pixels between pins that are clustered with cluster: true
+const DEFAULT_CLUSTER_DISTANCE = 40;
+
+/**
+ * Parse and validate the YAML frontmatter of a map block
+ * Unknown keys and values of the wrong type are reported as warnings and left
+ * out of the config. YAML syntax errors are reported as errors.
+ * `firstLine` is the block line the frontmatter starts on, so diagnostics
+ * point at the line in the note.
+ *
+ * Example:
+ * center: [48.8566, 2.3522]
+ * zoom: 12
+ * minZoom: 4
+ * bounds: [[48.80, 2.25], [48.90, 2.42]]
+ * height: 500
+ * aspectRatio: 16:9
+ * align: center
+ * gpx:
+ *   - "[[Day 1.gpx]]"
+ *   - "[[Day 2.gpx]]"
+ */
+export function parseMapConfig(
+  source: string,
+  firstLine = 1
+): { config: MapConfig; diagnostics: MapDiagnostic[] } {
+  const config: MapConfig = {};
+  const diagnostics: MapDiagnostic[] = [];
+
+  const lineCounter = new LineCounter();
+  const document = parseDocument(quoteRawValues(source), { lineCounter });
+  const getPosition = (offset = 0) => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line: firstLine + line - 1, column: col };
+  };
+
+  for (const error of document.errors) {
+    // The message ends with a code frame; the first line is the description
+    diagnostics.push(
+      errorDiagnostic(
+        "invalid-yaml",
+        `Invalid YAML: ${error.message.split("\n")[0]}`,
+        getPosition(error.pos[0])
+      )
+    );
+  }
+
+  const contents = document.contents;
+  if (!contents || (isScalar(contents) && contents.value === null)) {
+    return { config, diagnostics };
+  }
+
+  if (!isMap(contents)) {
+    diagnostics.push(
+      warningDiagnostic(
+        "invalid-config",
+        "Map settings should be written as key: value lines",
+        getPosition(contents.range?.[0])
+      )
+    );
+    return { config, diagnostics };
+  }
+
+  for (const pair of contents.items) {
+    const key = String(isScalar(pair.key) ? pair.key.value : pair.key);
+    const keyPosition = getPosition(
+      isNode(pair.key) ? pair.key.range?.[0] : undefined
+    );
+
+    if (!isConfigKey(key)) {
+      const suggestion = findClosestKey(key);
+      diagnostics.push(
+        warningDiagnostic("unknown-config-key", `Unknown setting: ${key}`, {
+          ...keyPosition,
+          fix: suggestion
+            ? `Did you mean ${suggestion}?`
+            : `Known settings: ${CONFIG_KEYS.join(", ")}`,
+        })
+      );
+      continue;
+    }
+
+    const value = isNode(pair.value) ? pair.value.toJS(document) : pair.value;
+    if (value === null || value === undefined) {
+      continue; // A key without a value keeps the default
+    }
+
+    try {
+      setConfigValue(config, key, value);
+    } catch (error) {
+      diagnostics.push(
+        warningDiagnostic(
+          "invalid-config-value",
+          `Invalid ${key}: ${error instanceof Error ? error.message : "wrong type"}`,
+          isNode(pair.value) ? getPosition(pair.value.range?.[0]) : keyPosition
+        )
+      );
+    }
+  }
+
+  if (
+    config.minZoom !== undefined &&
+    config.maxZoom !== undefined &&
+    config.minZoom > config.maxZoom
+  ) {
+    diagnostics.push(
+      warningDiagnostic(
+        "invalid-config-value",
+        "minZoom is greater than maxZoom",
+        { fix: "Swap the minZoom and maxZoom values" }
+      )
+    );
+    delete config.minZoom;
+    delete config.maxZoom;
+  }
+
+  return { config, diagnostics };
+}
+
+function isConfigKey(key: string): key is keyof MapConfig {
+  return (CONFIG_KEYS as string[]).includes(key);
+}
+
+function setConfigValue(
+  config: MapConfig,
+  key: keyof MapConfig,
+  value: unknown
+): void {
+  // The schema guarantees each parser returns its key's type
+  (config as Record<string, unknown>)[key] = CONFIG_SCHEMA[key](value);
+}
+
+/**
+ * Wrap values that are not valid YAML in single quotes so they reach the
+ * schema as written. Only top-level lines are changed, and never their line count.
+ */
+function quoteRawValues(source: string): string {
+  return source
+    .split("\n")
+    .map((line) => {
+      const lineMatch = line.match(/^(\w+)(\s*:\s+)(.*\S)\s*$/);
+      if (!lineMatch) return line;
+
+      const [, key, separator, value] = lineMatch;
+      const alreadyQuoted = value.startsWith("'") && value.endsWith("'");
+      const keepRaw =
+        RAW_KEYS.includes(key) ||
+        (FILE_LIST_KEYS.includes(key) && value.startsWith("[["));
+
+      return keepRaw && !alreadyQuoted
+        ? `${key}${separator}'${value.replace(/'/g, "''")}'`
+        : line;
+    })
+    .join("\n");
+}
+
+/**
+ * Find the known key closest to a misspelled one, e.g. "zooom" -> "zoom"
+ */
+function findClosestKey(key: string): string | undefined {
+  let closest: string | undefined;
+  let closestDistance = 3; // Only suggest keys within two edits
+  for (const candidate of CONFIG_KEYS) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function parseText(value: unknown): string {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error("expected text");
+  }
+  return String(value);
+}
+
+function parseBoolean(value: unknown): boolean {
+  if (typeof value !== "boolean") {
+    throw new Error("expected true or false");
+  }
+  return value;
+}
+
+function parseZoom(value: unknown): number {
+  if (typeof value !== "number" || value < 0 || value > MAX_ZOOM) {
+    throw new Error(`expected a zoom level from 0 to ${MAX_ZOOM}`);
+  }
+  return value;
+}
+
+function parseLocation(value: unknown): LatLng {
+  const { lat, lng } = parseLocationProperty(value);
+  return { lat, lng };
+}
+
+/**
+ * Parse a reference location: [lat, lng] or the name of a city, like
+ * "Melbourne" or "Paris, France"
+ */
+export function parseReferenceLocation(value: unknown): LatLng {
+  const locality = typeof value === "string" && findLocality(value);
+  if (locality) {
+    return { lat: locality.lat, lng: locality.lng };
+  }
+
+  try {
+    return parseLocation(value);
+  } catch (error) {
+    throw new Error("expected [lat, lng] or the name of a large city");
+  }
+}
+
+/**
+ * Parse two opposite corners of the area to show: [[lat, lng], [lat, lng]]
+ */
+function parseBounds(value: unknown): [LatLng, LatLng] {
+  if (!Array.isArray(value) || value.length !== 2) {
+    throw new Error("expected two corners: [[lat, lng], [lat, lng]]");
+  }
+  return [parseLocation(value[0]), parseLocation(value[1])];
+}
+
+function parseChoice<T extends string>(
+  value: unknown,
+  choices: readonly T[]
+): T {
+  const choice = choices.find((choice) => choice === value);
+  if (!choice) {
+    throw new Error(`expected one of ${choices.join(", ")}`);
+  }
+  return choice;
+}
+
+function parsePixels(value: unknown): number {
+  if (typeof value !== "number" || value <= 0) {
+    throw new Error("expected a number of pixels, like 10");
+  }
+  return value;
+}
+
+function parseIconAnchor(value: unknown): [number, number] {
+  const anchor = readIconAnchor(value);
+  if (!anchor) {
+    throw new Error("expected center, bottom, top, left, right or [x, y]");
+  }
+  return anchor;
+}
+
+/**
+ * Parse clustering: true for the default distance, false for none, or the
+ * distance in pixels within which pins are drawn as one cluster
+ */
+function parseCluster(value: unknown): number {
+  if (typeof value === "boolean") {
+    return value ? DEFAULT_CLUSTER_DISTANCE : 0;
+  }
+  if (typeof value !== "number" || value < 0) {
+    throw new Error("expected true or a distance in pixels, like 40");
+  }
+  return value;
+}
+
+/**
+ * Parse a map height: a number of pixels or a CSS length like "60vh"
+ */
+function parseHeight(value: unknown): string {
+  const height = parseLength(value, ["px", "em", "rem", "vh", "%"]);
+  if (!height) {
+    throw new Error('expected a height like 500 or "60vh"');
+  }
+  return height;
+}
+
+/**
+ * Parse a map width: a number of pixels or a CSS length like "50%"
+ */
+function parseWidth(value: unknown): string {
+  const width = parseLength(value, ["px", "em", "rem", "vw", "%"]);
+  if (!width) {
+    throw new Error('expected a width like 300 or "50%"');
+  }
+  return width;
+}
+
+function parseLength(value: unknown, units: string[]): string | undefined {
+  if (typeof value === "number" && value > 0) {
+    return `${value}px`;
+  }
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)([a-z%]+)$/);
+  return match && Number(match[1]) > 0 && units.includes(match[2])
+    ? match[0]
+    : undefined;
+}
+
+/**
+ * Parse an aspect ratio written as 16:9, 16/9 or a number like 1.5
+ */
+function parseAspectRatio(value: unknown): number {
+  const ratio =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? parseRatio(value)
+        : NaN;
+  if (!(ratio > 0)) {
+    throw new Error('expected a ratio like "16:9" or 1.5');
+  }
+  return ratio;
+}
+
+function parseRatio(text: string): number {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)$/);
+  return match ? Number(match[1]) / Number(match[2]) : Number(text);
+}
+
+/**
+ * Parse a config value that names one or more vault files
+ * Accepts wiki links, a list or a single path:
+ * [[hike.gpx]], [[a.gpx]] [[b.gpx]], [a.geojson, "b.geojson"], data/parks.geojson
+ */
+function parseFileList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    // An unquoted [[link]] reads as a nested list in YAML
+    return value.reduce<string[]>(
+      (paths, item) => paths.concat(parseFileList(item)),
+      []
+    );
+  }
+
+  if (typeof value !== "string") {
+    throw new Error("expected a file or a list of files");
+  }
+
+  const wikiLinks = value.match(/\[\[[^\]]+\]\]/g);
+  const paths = wikiLinks
+    ? wikiLinks.map((link) => link.slice(2, -2))
+    : value.startsWith("[") && value.endsWith("]")
+      ? value.slice(1, -1).split(",")
+      : [value];
+
+  return (
+    paths
+      // Drop any display text after a pipe: [[file.gpx|My hike]]
+      .map((path) => unquote(path.split("|")[0]))
+      .filter((path) => path)
+  );
+}
+
+/**
+ * Parse a config value that holds one name or a list of names:
+ * Hiking trails, [Hiking trails, Cycling routes]
+ */
+function parseNameList(value: unknown): string[] {
+  const names = Array.isArray(value) ? value : [value];
+  return names.map((name) => {
+    if (typeof name !== "string" && typeof name !== "number") {
+      throw new Error("expected a name or a list of names");
+    }
+    return String(name).trim();
+  });
+}
+
+/**
+ * Parse a map of names to pin styles, like styles or group defaults:
+ * { museum: { color: blue, icon: museum }, park: { color: green } }
+ */
+function parseStyleMap<K extends keyof PinStyle>(
+  value: unknown,
+  keys: K[],
+  example: string
+): Record<string, Pick<PinStyle, K>> {
+  if (!isRecord(value)) {
+    throw new Error(`expected names with their styles, like { ${example} }`);
+  }
+
+  const styles: Record<string, Pick<PinStyle, K>> = {};
+  for (const name of Object.keys(value)) {
+    const style = value[name];
+    if (!isRecord(style)) {
+      throw new Error(`${name} should be a style like { ${keys[0]}: ... }`);
+    }
+    for (const key of Object.keys(style)) {
+      if (!(keys as string[]).includes(key)) {
+        throw new Error(`${name} has ${key}; expected ${keys.join(", ")}`);
+      }
+      if (typeof style[key] !== "string") {
+        throw new Error(`${name}.${key} should be text`);
+      }
+    }
+    styles[name] = style as Pick<PinStyle, K>;
+  }
+  return styles;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
@@ -1,89 +1,413 @@
 import type { OpenLocationCode as T } from "open-location-code";
+import {
+  applyPinAttributes,
+  applyPinProperties,
+  applyPolygonAttributes,
+  applyPolylineAttributes,
+} from "./applyAttributes";
+import { isValidColor } from "./colors";
+import { parseCoordinateNotation } from "./coordinateFormats";
+import {
+  diagnosticFromError,
+  MapSyntaxError,
+  warningDiagnostic,
+  type MapDiagnostic,
+} from "./diagnostics";
+import { findLocality } from "./localities";
+import { parseGeoJSON } from "./parseGeoJSON";
+import { isKnownIcon } from "./pinIcons";
+import { parseMapConfig } from "./parseMapConfig";
 const OpenLocationCode = require("open-location-code").OpenLocationCode;
 export interface MapPin {
   lat: number;
   lng: number;
   label?: string;
   color?: string;
-  icon?: string;
+  icon?: string; // An icon name or an image in the vault, e.g. "star" or "[[icons/brewery.svg]]"
+  iconSize?: number; // Width of an image icon in pixels
+  iconAnchor?: [number, number]; // Point of an image icon on the location, as fractions of its size
   group?: string;
+  style?: string; // Name of a style from the block's styles setting
+  weight?: number; // How much the pin counts in heatmap mode, relative to the others
   description?: string;
   plusCode?: string;
+  plusCodePlace?: string; // Place written after the Plus Code in its brackets, which a short code is recovered near
+  notation?: { format: string; text: string }; // Coordinates as written when not decimal, e.g. DMS or MGRS
+  link?: string;
+  radius?: number; // meters
+  notePath?: string; // Vault path of the note this pin was read from
+  line?: number; // Block line the pin was written on, so edits on the map can be written back
+  properties?: Record<string, string | number | boolean>; // Other JSON attributes, e.g. {"rating": 4.5}
+}
+
+// Pin attributes that a named style or a group default can set
+export type PinStyle = Pick<MapPin, "color" | "icon" | "group">;
+
+export type LineDash = "solid" | "dashed" | "dotted" | number[];
+
+export interface MapPolyline {
+  points: { lat: number; lng: number }[];
+  label?: string;
+  color?: string;
+  width?: number;
+  dash?: LineDash;
+  group?: string;
+  description?: string;
+  link?: string;
+}
+
+export interface MapPolygon {
+  points: { lat: number; lng: number }[];
+  label?: string;
+  fill?: string;
+  opacity?: number;
+  stroke?: string;
+  width?: number;
+  group?: string;
+  description?: string;
   link?: string;
 }
 
 export interface MapConfig {
   mapLayerURL?: string;
+  basemap?: string; // Name of the basemap from the plugin settings to show first
+  overlays?: string[]; // Names of the overlays from the plugin settings to show first
   labelsOnHover?: boolean;
+  geojson?: string[]; // Vault paths of .geojson files to add to the map
+  gpx?: string[]; // Vault paths of .gpx files to add to the map
+  kml?: string[]; // Vault paths of .kml or .kmz files to add to the map
+  from?: string; // Tags and folders of notes to plot, e.g. #travel and "Trips"
+  where?: string; // Property conditions for notes to plot, e.g. visited = true
+  center?: { lat: number; lng: number }; // Initial center instead of fitting the pins
+  zoom?: number; // Initial zoom level instead of fitting the pins
+  minZoom?: number;
+  maxZoom?: number;
+  bounds?: [{ lat: number; lng: number }, { lat: number; lng: number }]; // Opposite corners of the area to show
+  height?: string; // CSS height of the map, e.g. "500px" or "60vh"
+  width?: string; // CSS width of the map, e.g. "300px" or "50%"
+  aspectRatio?: number; // Width divided by height, used when no height is given
+  align?: "left" | "center" | "right"; // Where a map narrower than the note sits
+  float?: "left" | "right"; // Let the note's text wrap around the map
+  inline?: boolean; // Compact map without controls, for embedding in running text
+  plusCodeReference?: { lat: number; lng: number }; // Where short Plus Codes are recovered
+  mode?: "pins" | "heatmap"; // Draw pins as markers or as a heatmap of their density
+  heatmapRadius?: number; // Heatmap point radius in pixels
+  heatmapBlur?: number; // Heatmap blur in pixels, added to the radius
+  iconSize?: number; // Width of image icons in pixels, unless a pin sets its own
+  iconAnchor?: [number, number]; // Point of image icons on their location, unless a pin sets its own
+  cluster?: number; // Pins closer than this many pixels are drawn as one counted circle; 0 for none
+  styles?: Record<string, PinStyle>; // Named styles that pins use with {"style": "name"}
+  groups?: Record<string, Omit<PinStyle, "group">>; // Color and icon defaults for each group's pins
+}
+
+export interface MapNoteLink {
+  note: string; // Link text, e.g. "Cafe Central" for [[Cafe Central]]
+  pin: Omit<MapPin, "lat" | "lng">; // Label and attributes from the line
+  index: number; // Position of the pin among the block's pins
+  line: number;
+}
+
+export interface MapPlace {
+  place: string; // Place name to look up, e.g. "Paris, France" for [Paris, France]
+  pin: Omit<MapPin, "lat" | "lng">; // Label and attributes from the line
+  index: number; // Position of the pin among the block's pins
+  line: number;
 }
 
 export interface ParsedMapData {
   pins: MapPin[];
-  errors: string[];
+  polylines: MapPolyline[];
+  polygons: MapPolygon[];
+  diagnostics: MapDiagnostic[];
   config?: MapConfig;
+  noteLinks?: MapNoteLink[]; // Pins whose coordinates come from a linked note
+  places?: MapPlace[]; // Pins whose coordinates come from a geocoder
+}
+
+export interface MapSyntaxOptions {
+  plusCodeReference?: { lat: number; lng: number }; // Used when the block sets none
+}
+
+// What a line parser may need besides the line itself
+interface LineContext {
+  plusCodeReference?: { lat: number; lng: number };
+  warn: (code: string, message: string, fix?: string) => void;
 }
 
+// Short Plus Codes are recovered near here when nothing better is known
+const DEFAULT_PLUS_CODE_REFERENCE = {
+  name: "New York",
+  lat: 40.7589,
+  lng: -73.9851,
+};
+
 /**
  * Parse enhanced map syntax with coordinates in brackets or Plus Codes
  * Formats:
  * - [lat, lng] optional_label {"optional": "json", "attributes": "here"} # optional comment
  * - [Plus Code location] optional_label_override {"optional": "json", "attributes": "here"} # optional comment
  * - [lat, lng] {"description": "from json"} # comment takes preference over json description
+ * - line [lat, lng] [lat, lng] ... optional_label {"color": "red", "width": 4, "dash": "dashed"} # optional comment
+ * - polygon [lat, lng] [lat, lng] [lat, lng] ... optional_label {"fill": "green", "opacity": 0.3, "stroke": "black"} # optional comment
+ * - [[Note name]] optional_label {"optional": "attributes"} # coordinates come from the linked note
+ * - [Place name] optional_label {"optional": "attributes"} # coordinates are looked up later, see MapPlace
+ *
+ * Lines right under an item and indented deeper continue its description,
+ * which is Markdown:
+ * [48.8606, 2.3376] Louvre # The world's largest art museum
+ *   Home of the **Mona Lisa**, see [[Paris trip]]
+ *
+ * Alternatively the whole block can be a GeoJSON object (FeatureCollection, Feature or geometry).
  * 
- * With optional YAML frontmatter config:
+ * With optional YAML frontmatter config (see parseMapConfig for every setting):
  * ---
  * mapLayerURL: "https://a.tile.openstreetmap.fr/hot/{z}/{x}/{y}.png"
  * labelsOnHover: true
+ * center: [48.8566, 2.3522]
+ * zoom: 12
+ * geojson: [[parks.geojson]]
+ * gpx: [[2026-07-hike.gpx]]
+ * kml: [[My Places.kmz]]
  * ---
  * 
  * [lat, lng] label
+ *
+ * Short Plus Codes are recovered near a place named after the code, else near
+ * the block's plusCodeReference, else near options.plusCodeReference.
  */
-export function parseMapSyntax(source: string): ParsedMapData {
-  const trimmedSource = source.trim();
+export function parseMapSyntax(
+  source: string,
+  options: MapSyntaxOptions = {}
+): ParsedMapData {
+  // Lines are kept as written so diagnostics point at the real line in the block
+  const sourceLines = source.split("\n");
   let config: MapConfig | undefined;
-  let contentToParse = trimmedSource;
+  let bodyStart = 0; // Index of the first line after any frontmatter
+  const diagnostics: MapDiagnostic[] = [];
 
   // Check for YAML frontmatter
-  if (trimmedSource.startsWith('---')) {
-    const frontmatterEndIndex = trimmedSource.indexOf('---', 3);
+  const firstLineIndex = sourceLines.findIndex((line) => line.trim());
+  if (firstLineIndex !== -1 && sourceLines[firstLineIndex].trim() === "---") {
+    const frontmatterEndIndex = sourceLines.findIndex(
+      (line, index) => index > firstLineIndex && line.trim() === "---"
+    );
     if (frontmatterEndIndex !== -1) {
-      const frontmatterContent = trimmedSource.substring(3, frontmatterEndIndex).trim();
-      contentToParse = trimmedSource.substring(frontmatterEndIndex + 3).trim();
-      
+      const frontmatterContent = sourceLines
+        .slice(firstLineIndex + 1, frontmatterEndIndex)
+        .join("\n");
+
       // Parse YAML frontmatter for config
-      try {
-        config = parseYamlConfig(frontmatterContent);
-      } catch (error) {
-        // If YAML parsing fails, treat it as content instead
-        contentToParse = trimmedSource;
-      }
+      const frontmatter = parseMapConfig(
+        frontmatterContent,
+        firstLineIndex + 2
+      );
+      config = frontmatter.config;
+      diagnostics.push(...frontmatter.diagnostics);
+      bodyStart = frontmatterEndIndex + 1;
     }
   }
 
-  const lines = contentToParse
-    .split("\n")
-    .map((line) => line.trim())
-    .filter((line) => line && !line.startsWith("#")); // Allow comments
+  // A block body that is a JSON object is read as GeoJSON
+  const body = sourceLines.slice(bodyStart).join("\n").trim();
+  if (body.startsWith("{")) {
+    const geojson = parseGeoJSON(body);
+    return {
+      ...geojson,
+      diagnostics: [...diagnostics, ...geojson.diagnostics],
+      config,
+    };
+  }
 
   const pins: MapPin[] = [];
-  const errors: string[] = [];
+  const polylines: MapPolyline[] = [];
+  const polygons: MapPolygon[] = [];
+  const noteLinks: MapNoteLink[] = [];
+  const places: MapPlace[] = [];
+  const plusCodeReference =
+    config?.plusCodeReference ?? options.plusCodeReference;
+
+  let continuationEnd = 0; // Index of the first line after a description continuation
+  for (const [lineIndex, sourceLine] of sourceLines.entries()) {
+    const line = sourceLine.trim();
+    if (lineIndex < bodyStart || lineIndex < continuationEnd) {
+      continue; // Skip frontmatter and lines already read as a description
+    }
+    if (!line || line.startsWith("#")) {
+      continue; // Skip blank lines and comments
+    }
+
+    continuationEnd = findContinuationEnd(sourceLines, lineIndex);
+    const continuation = dedentLines(
+      sourceLines.slice(lineIndex + 1, continuationEnd)
+    );
+
+    const position = {
+      line: lineIndex + 1,
+      column: sourceLine.search(/\S/) + 1,
+    };
+    const context: LineContext = {
+      plusCodeReference,
+      warn: (code, message, fix) =>
+        diagnostics.push(
+          warningDiagnostic(code, message, { ...position, fix })
+        ),
+    };
 
-  for (const [lineIndex, line] of lines.entries()) {
     try {
-      const pin = parseMapLine(line);
-      if (pin) {
-        pins.push(pin);
+      if (NOTE_LINK.test(line)) {
+        const noteLink = parseNoteLinkLine(line, pins.length, lineIndex + 1);
+        appendDescription(noteLink.pin, continuation);
+        checkPinAttributes(noteLink.pin, config, context);
+        noteLinks.push(noteLink);
+        continue;
+      }
+
+      if (POLYLINE_KEYWORD.test(line)) {
+        polylines.push(
+          appendDescription(parsePolylineLine(line, context), continuation)
+        );
+        continue;
+      }
+
+      if (POLYGON_KEYWORD.test(line)) {
+        polygons.push(
+          appendDescription(parsePolygonLine(line, context), continuation)
+        );
+        continue;
+      }
+
+      const pin = parseMapLine(line, context);
+      if (pin && "place" in pin) {
+        appendDescription(pin.pin, continuation);
+        checkPinAttributes(pin.pin, config, context);
+        places.push({ ...pin, index: pins.length, line: lineIndex + 1 });
+      } else if (pin) {
+        appendDescription(pin, continuation);
+        checkPinAttributes(pin, config, context);
+        pins.push({ ...pin, line: lineIndex + 1 });
       }
     } catch (error) {
-      errors.push(
-        `Line ${lineIndex + 1}: ${error instanceof Error ? error.message : "Invalid format"}`
-      );
+      diagnostics.push(diagnosticFromError(error, position));
     }
   }
 
-  return { pins, errors, config };
+  return {
+    pins,
+    polylines,
+    polygons,
+    diagnostics,
+    config,
+    noteLinks,
+    places,
+  };
+}
+
+/**
+ * Find the end of the lines that continue the description of the item on
+ * lines[index]: the lines right under it that are indented deeper, with any
+ * blank lines between them. Returns the index of the first line after them.
+ * A blank line before the first of them ends the item, so an indented pin
+ * after a blank line stays a pin.
+ */
+export function findContinuationEnd(lines: string[], index: number): number {
+  const indentation = getIndentation(lines[index]);
+  let end = index + 1;
+  for (let i = index + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) {
+      if (i === index + 1) break;
+      continue;
+    }
+    if (getIndentation(lines[i]) <= indentation) break;
+    end = i + 1;
+  }
+  return end;
+}
+
+function getIndentation(line: string): number {
+  return line.search(/\S|$/);
+}
+
+/**
+ * Remove the indentation that continuation lines share, keeping any deeper
+ * indentation, e.g. for nested Markdown lists
+ */
+function dedentLines(lines: string[]): string {
+  const indentation = Math.min(
+    ...lines.filter((line) => line.trim()).map(getIndentation)
+  );
+  return lines
+    .map((line) => (line.trim() ? line.slice(indentation) : ""))
+    .join("\n");
+}
+
+/**
+ * Add continuation lines to an item's description, after any # comment
+ */
+function appendDescription<T extends { description?: string }>(
+  item: T,
+  continuation: string
+): T {
+  if (continuation) {
+    item.description = item.description
+      ? `${item.description}\n${continuation}`
+      : continuation;
+  }
+  return item;
+}
+
+/**
+ * Warn when a pin has a color or icon the map cannot draw, or a style that the
+ * block's styles setting does not define
+ */
+function checkPinAttributes(
+  pin: Omit<MapPin, "lat" | "lng">,
+  config: MapConfig | undefined,
+  context: LineContext
+): void {
+  if (!checkColor(pin.color, context)) {
+    delete pin.color;
+  }
+
+  if (pin.icon && !isKnownIcon(pin.icon)) {
+    context.warn(
+      "unknown-icon",
+      `Unknown icon: ${pin.icon}`,
+      "Use an icon name like star, cafe or lucide-tent, or an image like [[icons/brewery.svg]]"
+    );
+  }
+
+  const { style } = pin;
+  if (!style || config?.styles?.[style]) return;
+
+  const known = Object.keys(config?.styles || {});
+  context.warn(
+    "unknown-style",
+    `Unknown style: ${style}`,
+    known.length > 0
+      ? `Known styles: ${known.join(", ")}`
+      : "Define it in the frontmatter, like styles: { museum: { color: blue } }"
+  );
+}
+
+/**
+ * Warn about a color the map cannot draw, such as a mistyped name
+ * Returns false when the color should be left out, so the default is used.
+ */
+function checkColor(color: string | undefined, context: LineContext): boolean {
+  if (!color || isValidColor(color)) return true;
+
+  context.warn(
+    "invalid-color",
+    `Invalid color: ${color}`,
+    "Use a color name like red, a hex value like #ff8800 or rgb(255, 136, 0)"
+  );
+  return false;
 }
 
+const POLYLINE_KEYWORD = /^line\s/i;
+const POLYGON_KEYWORD = /^polygon\s/i;
+const NOTE_LINK = /^\[\[([^\]]*)\]\](.*)$/;
+
 /**
  * Find the index of a comment (#) that is not inside a JSON object or quoted string
  * This prevents hex colors like #ff0000 from being treated as comments
@@ -92,10 +416,18 @@ function findCommentIndex(line: string): number {
   let insideQuotes = false;
   let quoteChar = '';
   let braceDepth = 0;
+  let bracketDepth = 0;
   let escaped = false;
   
   for (let i = 0; i < line.length; i++) {
     const char = line[i];
+
+    // Locations may hold quotes and # of their own: [40°45'32"N 73°59'06"W], [https://osm.org/#map=...]
+    if (bracketDepth > 0 || (char === "[" && !insideQuotes)) {
+      if (char === "[") bracketDepth++;
+      if (char === "]") bracketDepth--;
+      continue;
+    }
     
     if (escaped) {
       escaped = false;
@@ -143,43 +475,23 @@ function findCommentIndex(line: string): number {
  * [87G8+Q9 New York, NY] My Label {"color": "blue"} # Comment description
  * [40.7589, -73.9851] {"description": "JSON description"} # Comment takes preference
  * [40.7589, -73.9851] {"link": "https://example.com"} # Clickable link icon in data viewer
+ * [40.7589, -73.9851] Hotel {"radius": "5km"} # Draws a 5 km circle around the pin
  */
-function parseMapLine(line: string): MapPin | null {
+function parseMapLine(
+  line: string,
+  context: LineContext
+): MapPin | Pick<MapPlace, "place" | "pin"> | null {
   if (!line.trim()) return null;
 
-  // Extract comment from end of line first
-  let workingLine = line;
-  let comment = "";
-  const commentIndex = findCommentIndex(line);
-  if (commentIndex !== -1) {
-    comment = line.substring(commentIndex + 1).trim();
-    workingLine = line.substring(0, commentIndex).trim();
-  }
+  const { workingLine, comment } = splitComment(line);
 
   // Parse bracket syntax
   const bracketMatch = workingLine.match(/^\[([^\]]+)\](.*)$/);
   if (bracketMatch) {
-    const contents = bracketMatch[1];
-    const remainder = bracketMatch[2];
-
-    // Check if contents is a Plus Code
-    const plusCodeMatch = contents.match(/^([A-Z0-9]{4,}\+[A-Z0-9]{2,})(.*)$/i);
-    if (plusCodeMatch) {
-      const plusCode = plusCodeMatch[1];
-      const plusCodeLabel = plusCodeMatch[2].trim();
-
-      const pin = parsePlusCode(plusCode);
-
-      // Store the original Plus Code
-      pin.plusCode = plusCode.toUpperCase();
-
-      // If there's a label within the Plus Code part, use it
-      if (plusCodeLabel) {
-        pin.label = parseLabel(plusCodeLabel);
-      }
-
+    const pin = parseBracketContents(bracketMatch[1], context);
+    if (pin) {
       // Parse remainder for label override and JSON attributes
-      const finalPin = parseRemainderAndApply(pin, remainder);
+      const finalPin = parseRemainderAndApply(pin, bracketMatch[2]);
 
       // Add comment as description if present
       if (comment) {
@@ -187,85 +499,380 @@ function parseMapLine(line: string): MapPin | null {
       }
 
       return finalPin;
-    } else {
-      // Try to parse as lat, lng coordinates
-      const coordMatch = contents.match(/^([^,]+),\s*([^,]+)$/);
-      if (coordMatch) {
-        const pin = parseBracket(coordMatch[1], coordMatch[2]);
-        const finalPin = parseRemainderAndApply(pin, remainder);
-
-        // Add comment as description if present
-        if (comment) {
-          finalPin.description = comment;
-        }
-
-        return finalPin;
+    }
+
+    // A place name is looked up once parsing is done; it labels the pin by default
+    const place = bracketMatch[1].trim();
+    if (isPlaceName(place)) {
+      const placePin = parseRemainderAndApply<Omit<MapPin, "lat" | "lng">>(
+        { label: place },
+        bracketMatch[2]
+      );
+      if (comment) {
+        placePin.description = comment;
       }
+      return { place, pin: placePin };
     }
   }
 
   // Invalid format
-  throw new Error(
-    'Invalid format. Use: [lat, lng] label {"optional": "attributes"} or [Plus Code] label {"optional": "attributes"}'
+  throw new MapSyntaxError("invalid-format", "Invalid format", {
+    fix: 'Use: [lat, lng] label {"optional": "attributes"} or [Plus Code] label {"optional": "attributes"}',
+  });
+}
+
+/**
+ * Parse a pin that takes its coordinates from a linked note
+ * The label defaults to the link's display text, then to the note title.
+ * Examples:
+ * [[Cafe Central]]
+ * [[Cafe Central]] {"color": "brown", "icon": "cafe"}
+ * [[Places/Cafe Central|Café]] # Best apple strudel in town
+ */
+function parseNoteLinkLine(
+  line: string,
+  index: number,
+  lineNumber: number
+): MapNoteLink {
+  const [, link = "", remainder = ""] = line.match(NOTE_LINK) || [];
+  const [note, displayText] = link.split("|").map((part) => part.trim());
+  if (!note) {
+    throw new MapSyntaxError("invalid-note-link", "Invalid note link", {
+      fix: "Use: [[Note name]] label",
+    });
+  }
+
+  const pin: Omit<MapPin, "lat" | "lng"> = {};
+  if (displayText) {
+    pin.label = displayText;
+  }
+
+  // Comments are split after the link so [[Note#Heading]] keeps its heading
+  const { workingLine, comment } = splitComment(remainder);
+  const { label, attributes } = parseRemainder(workingLine);
+  if (label) {
+    pin.label = label;
+  }
+
+  if (attributes) {
+    applyPinAttributes(pin, attributes);
+    applyPinProperties(pin, attributes);
+  }
+
+  if (comment) {
+    pin.description = comment;
+  }
+
+  return { note, pin, index, line: lineNumber };
+}
+
+/**
+ * Parse a polyline definition: the `line` keyword followed by two or more
+ * bracketed locations, then the usual label, JSON attributes and comment
+ * Examples:
+ * line [40.7589, -73.9851] [40.7484, -73.9857] Midtown walk
+ * line [87G8Q257+HX] [87G8Q224+5J] {"color": "blue", "width": 5, "dash": "dashed"}
+ * line [48.8566, 2.3522] [50.8503, 4.3517] [52.3702, 4.8952] Road trip # Day 1 to 6
+ */
+function parsePolylineLine(line: string, context: LineContext): MapPolyline {
+  const { points, label, attributes, comment } = parseShapeLine(
+    line,
+    POLYLINE_KEYWORD,
+    { name: "line", minPoints: 2 },
+    context
+  );
+
+  const polyline: MapPolyline = { points };
+
+  if (label) {
+    polyline.label = label;
+  }
+
+  if (attributes) {
+    applyPolylineAttributes(polyline, attributes);
+  }
+
+  if (comment) {
+    polyline.description = comment;
+  }
+
+  return polyline;
+}
+
+/**
+ * Parse a polygon definition: the `polygon` keyword followed by three or more
+ * bracketed corners, then the usual label, JSON attributes and comment.
+ * The ring is closed automatically, so the first corner need not be repeated.
+ * Examples:
+ * polygon [40.7644, -73.9730] [40.8003, -73.9582] [40.7968, -73.9492] [40.7681, -73.9818] Central Park
+ * polygon [48.86, 2.33] [48.87, 2.35] [48.85, 2.36] {"fill": "green", "opacity": 0.4, "stroke": "#225522", "width": 2}
+ */
+function parsePolygonLine(line: string, context: LineContext): MapPolygon {
+  const { points, label, attributes, comment } = parseShapeLine(
+    line,
+    POLYGON_KEYWORD,
+    { name: "polygon", minPoints: 3 },
+    context
   );
+
+  const polygon: MapPolygon = { points };
+
+  if (label) {
+    polygon.label = label;
+  }
+
+  if (attributes) {
+    applyPolygonAttributes(polygon, attributes);
+  }
+
+  for (const key of ["fill", "stroke"] as const) {
+    if (!checkColor(polygon[key], context)) {
+      delete polygon[key];
+    }
+  }
+
+  if (comment) {
+    polygon.description = comment;
+  }
+
+  return polygon;
 }
 
 /**
- * Parse remainder of line for label override and JSON attributes
+ * Parse the parts shared by every multi-point shape: a keyword, a run of
+ * bracketed locations, then an optional label, JSON attributes and comment
+ */
+function parseShapeLine(
+  line: string,
+  keyword: RegExp,
+  shape: { name: string; minPoints: number },
+  context: LineContext
+): {
+  points: { lat: number; lng: number }[];
+  label?: string;
+  attributes?: Record<string, unknown>;
+  comment: string;
+} {
+  const { workingLine, comment } = splitComment(line);
+
+  const definition = workingLine.replace(keyword, "").trim();
+  const pointsMatch = definition.match(/^((?:\[[^\]]+\]\s*)+)(.*)$/);
+  if (!pointsMatch) {
+    const example = Array(shape.minPoints).fill("[lat, lng]").join(" ");
+    throw new MapSyntaxError(
+      `invalid-${shape.name}`,
+      `Invalid ${shape.name} format`,
+      { fix: `Use: ${shape.name} ${example} label {"optional": "attributes"}` }
+    );
+  }
+
+  const brackets = pointsMatch[1].match(/\[[^\]]+\]/g) || [];
+  let bracketOffset = 0;
+  const points = brackets.map((bracket) => {
+    // Report problems at the bracket itself rather than the start of the line
+    bracketOffset = line.indexOf(bracket, bracketOffset);
+    const contents = bracket.slice(1, -1);
+
+    let point: MapPin | null;
+    try {
+      point = parseBracketContents(contents, context);
+    } catch (error) {
+      if (error instanceof MapSyntaxError && error.offset === undefined) {
+        error.offset = bracketOffset;
+      }
+      throw error;
+    }
+
+    if (!point) {
+      throw new MapSyntaxError(
+        "invalid-point",
+        `Invalid ${shape.name} point: [${contents.trim()}]`,
+        { fix: "Use: [lat, lng] or [Plus Code]", offset: bracketOffset }
+      );
+    }
+    return { lat: point.lat, lng: point.lng };
+  });
+
+  if (points.length < shape.minPoints) {
+    const missing = shape.minPoints - points.length;
+    throw new MapSyntaxError(
+      "too-few-points",
+      `A ${shape.name} needs at least ${shape.minPoints} points`,
+      { fix: `Add ${missing} more [lat, lng] point${missing > 1 ? "s" : ""}` }
+    );
+  }
+
+  const { label, attributes } = parseRemainder(pointsMatch[2]);
+
+  return { points, label, attributes, comment };
+}
+
+/**
+ * Split a trailing # comment from a line
+ */
+function splitComment(line: string): { workingLine: string; comment: string } {
+  const commentIndex = findCommentIndex(line);
+  if (commentIndex === -1) {
+    return { workingLine: line, comment: "" };
+  }
+
+  return {
+    workingLine: line.substring(0, commentIndex).trim(),
+    comment: line.substring(commentIndex + 1).trim(),
+  };
+}
+
+/**
+ * Parse the contents of a bracket as a location
+ * Accepts a Plus Code with an optional label or a lat, lng pair.
+ * Returns null when the contents match neither.
+ */
+function parseBracketContents(
+  contents: string,
+  context: LineContext
+): MapPin | null {
+  // Check if contents is a Plus Code
+  const plusCodeMatch = contents.match(/^([A-Z0-9]{4,}\+[A-Z0-9]{2,})(.*)$/i);
+  if (plusCodeMatch) {
+    const plusCode = plusCodeMatch[1];
+    const plusCodeLabel = plusCodeMatch[2].trim();
+
+    const pin = parsePlusCode(plusCode, plusCodeLabel, context);
+
+    // Store the original Plus Code
+    pin.plusCode = plusCode.toUpperCase();
+
+    // If there's a label within the Plus Code part, use it
+    if (plusCodeLabel) {
+      pin.label = parseLabel(plusCodeLabel);
+      pin.plusCodePlace = pin.label;
+    }
+
+    return pin;
+  }
+
+  // Other notations: DMS, UTM, MGRS, geohash, geo: URIs and map links
+  const notation = parseCoordinateNotation(contents);
+  if (notation) {
+    validateLatLng(notation.lat, notation.lng);
+    return {
+      lat: notation.lat,
+      lng: notation.lng,
+      notation: { format: notation.format, text: contents.trim() },
+    };
+  }
+
+  if (isPlaceName(contents)) {
+    return null;
+  }
+
+  // Try to parse as lat, lng coordinates
+  const coordMatch = contents.match(/^([^,]+),\s*([^,]+)$/);
+  if (coordMatch) {
+    return parseBracket(coordMatch[1], coordMatch[2]);
+  }
+
+  return null;
+}
+
+/**
+ * Split the remainder of a line into an optional label and JSON attributes
  */
-function parseRemainderAndApply(pin: MapPin, remainder: string): MapPin {
+function parseRemainder(remainder: string): {
+  label?: string;
+  attributes?: Record<string, unknown>;
+} {
   const remainderTrimmed = remainder.trim();
   if (!remainderTrimmed) {
-    return pin; // Nothing to parse
+    return {}; // Nothing to parse
   }
 
   // Look for JSON block at the end
   const jsonMatch = remainderTrimmed.match(/^(.*)(\{.*\})$/);
+  if (!jsonMatch) {
+    // No JSON, just a label
+    return { label: parseLabel(remainderTrimmed) };
+  }
 
-  if (jsonMatch) {
-    // Has JSON attributes
-    const labelPart = jsonMatch[1].trim();
-    const jsonPart = jsonMatch[2];
+  const labelPart = jsonMatch[1].trim();
+  const attributes = parseAttributes(jsonMatch[2]);
 
-    // Parse label override if present
-    if (labelPart) {
-      pin.label = parseLabel(labelPart);
-    }
+  return {
+    label: labelPart ? parseLabel(labelPart) : undefined,
+    attributes:
+      typeof attributes === "object" && attributes !== null
+        ? attributes
+        : undefined,
+  };
+}
 
-    // Parse JSON attributes
-    try {
-      const attributes = parseAttributes(jsonPart);
-      if (typeof attributes === "object" && attributes !== null) {
-        if (attributes.color && typeof attributes.color === "string") {
-          pin.color = attributes.color;
-        }
-        if (attributes.icon && typeof attributes.icon === "string") {
-          pin.icon = attributes.icon;
-        }
-        if (attributes.group && typeof attributes.group === "string") {
-          pin.group = attributes.group;
-        }
-        if (
-          attributes.description &&
-          typeof attributes.description === "string"
-        ) {
-          pin.description = attributes.description;
-        }
-        if (attributes.link && typeof attributes.link === "string") {
-          pin.link = attributes.link;
-        }
-      }
-    } catch (error) {
-      throw new Error("Invalid JSON attributes");
-    }
-  } else {
-    // No JSON, just a label override
-    pin.label = parseLabel(remainderTrimmed);
+/**
+ * Read the JSON attributes of a pin line as they were written, before any are
+ * applied to the pin, so an edit can keep the ones it does not change
+ * Returns undefined when the line has no valid attributes.
+ */
+export function readPinLineAttributes(
+  line: string
+): Record<string, unknown> | undefined {
+  const { workingLine } = splitComment(line.trim());
+  const bracketMatch = workingLine.match(/^\[([^\]]+)\](.*)$/);
+  if (!bracketMatch) return undefined;
+
+  try {
+    return parseRemainder(bracketMatch[2]).attributes;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Parse remainder of line for label override and JSON attributes
+ */
+function parseRemainderAndApply<T extends Omit<MapPin, "lat" | "lng">>(
+  pin: T,
+  remainder: string
+): T {
+  const { label, attributes } = parseRemainder(remainder);
+
+  // Parse label override if present
+  if (label) {
+    pin.label = label;
+  }
+
+  // Apply JSON attributes, keeping any others as properties
+  if (attributes) {
+    applyPinAttributes(pin, attributes);
+    applyPinProperties(pin, attributes);
   }
 
   return pin;
 }
 
+// Words written where a coordinate should be, as in [lat, lng] or [invalid, coords]
+const COORDINATE_PLACEHOLDERS =
+  /^(lat|lng|lon|long|latitude|longitude|x|y|coords?|coordinates?)$/i;
+
+/**
+ * Check whether bracket contents name a place rather than give coordinates
+ * Called after the coordinate notations, several of which also start with a letter.
+ * A part that is a number or stands in for one means mistyped coordinates, like
+ * [lat, -73.9851] or [lat, lng].
+ * Examples: Paris, France / Central Park / São Paulo
+ */
+function isPlaceName(contents: string): boolean {
+  const text = contents.trim();
+  return (
+    /^[^\d\s+\-.,[]/.test(text) &&
+    !text.includes("°") &&
+    !text
+      .split(",")
+      .some(
+        (part) =>
+          !isNaN(parseFloat(part)) || COORDINATE_PLACEHOLDERS.test(part.trim())
+      )
+  );
+}
+
 /**
  * Parse bracket syntax: [lat, lng]
  */
@@ -274,46 +881,83 @@ function parseBracket(latStr: string, lngStr: string): MapPin {
   const lng = parseFloat(lngStr.trim());
 
   if (isNaN(lat) || isNaN(lng)) {
-    throw new Error("Invalid coordinates");
+    throw new MapSyntaxError("invalid-coordinates", "Invalid coordinates", {
+      fix: "Use decimal degrees: [40.7589, -73.9851]",
+    });
   }
 
+  validateLatLng(lat, lng);
+
+  return { lat, lng };
+}
+
+/**
+ * Check that coordinates are on the globe
+ */
+function validateLatLng(lat: number, lng: number): void {
   if (lat < -90 || lat > 90) {
-    throw new Error("Latitude must be between -90 and 90");
+    // Longitude first is a common mix-up; suggest swapping when that would be valid
+    throw new MapSyntaxError(
+      "latitude-out-of-range",
+      "Latitude must be between -90 and 90",
+      lng >= -90 && lng <= 90
+        ? { fix: `Put latitude first: [${lng}, ${lat}]` }
+        : {}
+    );
   }
 
   if (lng < -180 || lng > 180) {
-    throw new Error("Longitude must be between -180 and 180");
+    throw new MapSyntaxError(
+      "longitude-out-of-range",
+      "Longitude must be between -180 and 180"
+    );
   }
-
-  return { lat, lng };
 }
 
 /**
  * Parse Plus Code syntax: 87G8+Q9
- * Handles both full and short Plus Codes. For short codes, uses New York as reference location.
+ * Handles both full and short Plus Codes. A short code is recovered near the
+ * place written after it, e.g. [Q257+HX Melbourne], else near the context's
+ * reference, else near New York with a warning.
  */
-function parsePlusCode(plusCode: string): MapPin {
+function parsePlusCode(
+  plusCode: string,
+  place: string,
+  context: LineContext
+): MapPin {
   try {
     const olc = new OpenLocationCode() as typeof T;
     let codeToUse = plusCode.toUpperCase();
 
     // Check if it's a short code (less than 8 characters before +)
-    const plusIndex = codeToUse.indexOf("+");
-    if (plusIndex < 8) {
-      // It's a short code, expand it using New York as reference location
-      // New York coordinates: 40.7589, -73.9851
-      codeToUse = olc.recoverNearest(codeToUse, 40.7589, -73.9851);
+    const shortCode = codeToUse;
+    const reference =
+      (place && findLocality(parseLabel(place))) || context.plusCodeReference;
+    const isShort = codeToUse.indexOf("+") < 8;
+    if (isShort) {
+      const { lat, lng } = reference ?? DEFAULT_PLUS_CODE_REFERENCE;
+      codeToUse = olc.recoverNearest(codeToUse, lat, lng);
     }
 
     const decoded = olc.decode(codeToUse);
 
+    if (isShort && !reference) {
+      context.warn(
+        "plus-code-default-reference",
+        `Short Plus Code ${shortCode} was placed near ${DEFAULT_PLUS_CODE_REFERENCE.name}`,
+        `Add a city after the code, like [${shortCode} Melbourne], or set plusCodeReference`
+      );
+    }
+
     return {
       lat: decoded.latitudeCenter,
       lng: decoded.longitudeCenter,
     };
   } catch (error) {
-    throw new Error(
-      `Invalid Plus Code: ${error instanceof Error ? error.message : "Unknown error"}`
+    throw new MapSyntaxError(
+      "invalid-plus-code",
+      `Invalid Plus Code: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { fix: "Use a code like 87G8Q257+HX, optionally followed by a place" }
     );
   }
 }
@@ -346,38 +990,8 @@ function parseAttributes(attributesStr: string): Record<string, any> {
   try {
     return JSON.parse(trimmed);
   } catch (error) {
-    throw new Error("Invalid JSON attributes");
+    throw new MapSyntaxError("invalid-attributes", "Invalid JSON attributes", {
+      fix: 'Use JSON with double-quoted keys and strings: {"color": "red"}',
+    });
   }
 }
-
-/**
- * Parse YAML-like config from frontmatter
- * Simple key: value parser for basic YAML syntax
- */
-function parseYamlConfig(yamlContent: string): MapConfig {
-  const config: MapConfig = {};
-  const lines = yamlContent.split('\n').map(line => line.trim()).filter(line => line);
-  
-  for (const line of lines) {
-    const colonIndex = line.indexOf(':');
-    if (colonIndex === -1) continue;
-    
-    const key = line.substring(0, colonIndex).trim();
-    let value = line.substring(colonIndex + 1).trim();
-    
-    // Remove quotes if present
-    if ((value.startsWith('"') && value.endsWith('"')) || 
-        (value.startsWith("'") && value.endsWith("'"))) {
-      value = value.slice(1, -1);
-    }
-    
-    // Map known config keys
-    if (key === 'mapLayerURL') {
-      config.mapLayerURL = value;
-    } else if (key === 'labelsOnHover') {
-      config.labelsOnHover = value.toLowerCase() === 'true';
-    }
-  }
-  
-  return config;
-}
@@ -0,0 +1,106 @@
+// Icon names and the emoji or symbols they are drawn with
+export const PIN_ICONS: Record<string, string> = {
+  star: "⭐",
+  heart: "❤️",
+  flag: "🚩",
+  pin: "📍",
+  marker: "📍",
+  home: "🏠",
+  office: "🏢",
+  school: "🏫",
+  hospital: "🏥",
+  restaurant: "🍽️",
+  cafe: "☕",
+  hotel: "🏨",
+  park: "🌳",
+  beach: "🏖️",
+  mountain: "⛰️",
+  airport: "✈️",
+  train: "🚂",
+  bus: "🚌",
+  car: "🚗",
+  bike: "🚲",
+  walk: "🚶",
+  shopping: "🛍️",
+  museum: "🏛️",
+  church: "⛪",
+  warning: "⚠️",
+  info: "ℹ️",
+  check: "✅",
+  cross: "❌",
+};
+
+// Image files a pin icon can be drawn from
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "bmp", "svg"];
+
+// Icon anchors by name, as fractions of the icon's width and height
+const NAMED_ANCHORS: Record<string, [number, number]> = {
+  center: [0.5, 0.5],
+  bottom: [0.5, 1],
+  top: [0.5, 0],
+  left: [0, 0.5],
+  right: [1, 0.5],
+};
+
+/**
+ * Get the emoji or symbol an icon name is drawn with
+ */
+export function getIconText(icon?: string): string | undefined {
+  if (!icon) return undefined;
+
+  return PIN_ICONS[icon.toLowerCase()];
+}
+
+/**
+ * Get the vault path of an icon that names an image file
+ * Examples: "[[icons/brewery.svg]]", "![[brewery.png|Brewery]]", "icons/brewery.png"
+ */
+export function getIconImagePath(icon?: string): string | undefined {
+  if (!icon) return undefined;
+
+  const link = icon.trim().match(/^!?\[\[([^\]]+)\]\]$/);
+  const path = (link ? link[1].split("|")[0] : icon).trim();
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return path.includes(".") && IMAGE_EXTENSIONS.includes(extension)
+    ? path
+    : undefined;
+}
+
+/**
+ * Get the id of a Lucide icon that Obsidian ships, e.g. "lucide-tent"
+ * Whether Obsidian has the icon is only known when the map is drawn.
+ */
+export function getLucideIconId(icon?: string): string | undefined {
+  const id = icon?.trim().toLowerCase();
+  return id && /^lucide-[a-z0-9]+(-[a-z0-9]+)*$/.test(id) ? id : undefined;
+}
+
+/**
+ * Check whether an icon is one the map can draw: a known name, a Lucide icon
+ * or an image file
+ */
+export function isKnownIcon(icon: string): boolean {
+  return (
+    !!getIconText(icon) || !!getLucideIconId(icon) || !!getIconImagePath(icon)
+  );
+}
+
+/**
+ * Read an icon anchor: the point of the icon that sits on the pin's location
+ * Accepts a name (center, bottom, top, left, right) or [x, y] as fractions of
+ * the icon's width and height, so [0.5, 1] is the middle of the bottom edge.
+ * Returns undefined when the value is not an anchor.
+ */
+export function readIconAnchor(value: unknown): [number, number] | undefined {
+  if (typeof value === "string") {
+    return NAMED_ANCHORS[value.trim().toLowerCase()];
+  }
+
+  const isFraction = (n: unknown) => typeof n === "number" && n >= 0 && n <= 1;
+  return Array.isArray(value) &&
+    value.length === 2 &&
+    isFraction(value[0]) &&
+    isFraction(value[1])
+    ? [value[0], value[1]]
+    : undefined;
+}
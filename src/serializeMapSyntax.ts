@@ -0,0 +1,291 @@
+import { stringify } from "yaml";
+import type {
+  MapConfig,
+  MapPin,
+  MapPolygon,
+  MapPolyline,
+} from "./parseMapSyntax";
+
+type LatLng = { lat: number; lng: number };
+
+// Labels with these characters are quoted so they are not read as a comment,
+// JSON attributes or a location
+const SPECIAL_LABEL_CHARACTERS = /["'#{}[\]]/;
+
+// Lines of a description after the first are written under the item, indented
+const CONTINUATION_INDENT = "  ";
+
+/**
+ * Write pins, shapes and config as map block text that parseMapSyntax reads back
+ * to the same data. The config becomes YAML frontmatter, then each pin and shape
+ * gets a line with its label, JSON attributes and # description, with any
+ * further description lines indented under it.
+ * Pins keep the Plus Code or notation they were written in; other locations are
+ * written as decimal [lat, lng]. A label with both kinds of quotes may not read
+ * back exactly.
+ *
+ * Example output:
+ * ---
+ * zoom: 12
+ * ---
+ * [40.7589, -73.9851] Times Square {"color": "red"} # Bright lights
+ * line [40.7589, -73.9851] [40.7484, -73.9857] Midtown walk {"dash": "dashed"}
+ */
+export function serializeMapSyntax(
+  pins: MapPin[],
+  config: MapConfig = {},
+  shapes: { polylines?: MapPolyline[]; polygons?: MapPolygon[] } = {}
+): string {
+  const lines: string[] = [];
+
+  const configLines = serializeMapConfig(config);
+  if (configLines.length > 0) {
+    lines.push("---", ...configLines, "---");
+  }
+
+  lines.push(
+    ...pins.map((pin) => serializePin(pin)),
+    ...(shapes.polylines || []).map(serializePolyline),
+    ...(shapes.polygons || []).map(serializePolygon)
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Write a single pin as a line of map syntax
+ * `attributes` are written instead of the ones taken from the pin, so an edited
+ * line can keep the JSON it was written with.
+ * Example: [40.7589, -73.9851] Times Square {"color": "red"} # Bright lights
+ */
+export function serializePin(
+  pin: MapPin,
+  attributes?: Record<string, unknown>
+): string {
+  let location = formatLocation(pin);
+  let label = pin.label;
+
+  if (pin.plusCode) {
+    // A short code is recovered near the place in its brackets, so keep it there
+    location = pin.plusCodePlace
+      ? `[${pin.plusCode} ${pin.plusCodePlace}]`
+      : `[${pin.plusCode}]`;
+
+    // The place labels its pin unless the line gives another label
+    if (pin.plusCodePlace && label === pin.plusCodePlace) {
+      label = undefined;
+    }
+  } else if (pin.notation) {
+    location = `[${pin.notation.text}]`;
+
+    // A place name labels its pin unless the line gives another label
+    if (pin.notation.format === "place" && label === pin.notation.text) {
+      label = undefined;
+    }
+  }
+
+  // A description the given attributes already hold stays in them as written
+  const inAttributes =
+    attributes !== undefined && attributes.description === pin.description;
+
+  return formatLine(
+    location,
+    label,
+    inAttributes ? undefined : pin.description,
+    attributes ?? {
+      color: pin.color,
+      icon: pin.icon,
+      iconSize: pin.iconSize,
+      iconAnchor: pin.iconAnchor,
+      group: pin.group,
+      style: pin.style,
+      link: pin.link,
+      radius: pin.radius,
+      weight: pin.weight,
+      ...pin.properties,
+    }
+  );
+}
+
+/**
+ * Write a polyline as a line of map syntax
+ * Example: line [40.7589, -73.9851] [40.7484, -73.9857] Midtown walk {"width": 5}
+ */
+export function serializePolyline(polyline: MapPolyline): string {
+  return formatLine(
+    `line ${polyline.points.map(formatLocation).join(" ")}`,
+    polyline.label,
+    polyline.description,
+    {
+      color: polyline.color,
+      width: polyline.width,
+      dash: polyline.dash,
+      group: polyline.group,
+      link: polyline.link,
+    }
+  );
+}
+
+/**
+ * Write a polygon as a line of map syntax
+ * Example: polygon [48.86, 2.33] [48.87, 2.35] [48.85, 2.36] Park {"fill": "green"}
+ */
+export function serializePolygon(polygon: MapPolygon): string {
+  return formatLine(
+    `polygon ${polygon.points.map(formatLocation).join(" ")}`,
+    polygon.label,
+    polygon.description,
+    {
+      fill: polygon.fill,
+      opacity: polygon.opacity,
+      stroke: polygon.stroke,
+      width: polygon.width,
+      group: polygon.group,
+      link: polygon.link,
+    }
+  );
+}
+
+/**
+ * Write a map config as YAML frontmatter lines, without the --- fences
+ * Settings keep their order, so a parsed config is written back as it was read.
+ */
+export function serializeMapConfig(config: MapConfig): string[] {
+  const lines: string[] = [];
+
+  for (const key of Object.keys(config) as (keyof MapConfig)[]) {
+    const value = config[key];
+    if (value === undefined) continue;
+
+    switch (key) {
+      case "from":
+      case "where":
+        // Queries are read as written, so # and quotes need no escaping
+        lines.push(`${key}: ${value}`);
+        break;
+      case "geojson":
+      case "gpx":
+      case "kml":
+        lines.push(
+          `${key}: ${(value as string[]).map((path) => `[[${path}]]`).join(" ")}`
+        );
+        break;
+      case "center":
+      case "plusCodeReference":
+        lines.push(`${key}: ${formatLocation(value as LatLng)}`);
+        break;
+      case "bounds":
+        lines.push(
+          `${key}: [${(value as LatLng[]).map(formatLocation).join(", ")}]`
+        );
+        break;
+      case "iconAnchor":
+        lines.push(`${key}: [${(value as number[]).join(", ")}]`);
+        break;
+      case "overlays":
+      case "styles":
+      case "groups":
+        // One line per setting: styles: { museum: { color: blue } }
+        lines.push(
+          `${key}: ${stringify(value, { lineWidth: 0, collectionStyle: "flow" }).trim()}`
+        );
+        break;
+      default:
+        lines.push(`${key}: ${stringify(value, { lineWidth: 0 }).trim()}`);
+    }
+  }
+
+  return lines;
+}
+
+function formatLocation({ lat, lng }: LatLng): string {
+  return `[${lat}, ${lng}]`;
+}
+
+/**
+ * Put a line together from its location, label, attributes and description
+ * A description's first line becomes a # comment and the rest are indented
+ * under it. One that would not read back the same that way, such as one with
+ * surrounding whitespace, goes in the JSON attributes instead.
+ */
+function formatLine(
+  location: string,
+  label: string | undefined,
+  description: string | undefined,
+  attributes: Record<string, unknown>
+): string {
+  const parts = [location];
+  if (label) {
+    parts.push(formatLabel(label));
+  }
+
+  const [firstLine, ...continuation] = (description ?? "").split("\n");
+  const commentable =
+    description !== undefined &&
+    firstLine === firstLine.trim() &&
+    (continuation.length === 0 || isContinuable(firstLine, continuation));
+  const json = formatAttributes(
+    commentable || description === undefined
+      ? attributes
+      : { ...attributes, description: description || undefined }
+  );
+  if (json) {
+    parts.push(json);
+  }
+
+  if (commentable && firstLine) {
+    parts.push(`# ${firstLine}`);
+  }
+
+  return [
+    parts.join(" "),
+    ...(commentable ? continuation : []).map((line) =>
+      line ? CONTINUATION_INDENT + line : ""
+    ),
+  ].join("\n");
+}
+
+/**
+ * Check whether description lines after a # comment read back the same when
+ * indented under it. The parser drops the indentation the lines share, reads
+ * lines of only spaces as blank and ends the description at a blank line
+ * right under the item or after its last line.
+ */
+function isContinuable(firstLine: string, lines: string[]): boolean {
+  return (
+    firstLine !== "" &&
+    lines[0] !== "" &&
+    lines[lines.length - 1].trim() !== "" &&
+    lines.every((line) => line === "" || line.trim() !== "") &&
+    lines.some((line) => line !== "" && !/^\s/.test(line))
+  );
+}
+
+/**
+ * Quote a label when it would otherwise be read differently, using the quote
+ * character it does not contain
+ */
+function formatLabel(label: string): string {
+  if (label === label.trim() && !SPECIAL_LABEL_CHARACTERS.test(label)) {
+    return label;
+  }
+  return label.includes('"') ? `'${label}'` : `"${label}"`;
+}
+
+/**
+ * Write attributes as JSON with a space after each colon and comma:
+ * {"color": "red", "width": 4}
+ * Braces in values are escaped, as the parser finds the attributes by their
+ * last opening brace.
+ */
+function formatAttributes(attributes: Record<string, unknown>): string {
+  const entries = Object.keys(attributes)
+    .filter((key) => attributes[key] !== undefined)
+    .map((key) => {
+      const value = JSON.stringify(attributes[key]).replace(/[{}]/g, (brace) =>
+        brace === "{" ? "\\u007b" : "\\u007d"
+      );
+      return `${JSON.stringify(key)}: ${value}`;
+    });
+  return entries.length > 0 ? `{${entries.join(", ")}}` : "";
+}
@@ -0,0 +1,146 @@
+// WGS84 ellipsoid and the UTM scale factor on the central meridian
+const SEMI_MAJOR_AXIS = 6378137;
+const ECCENTRICITY_SQUARED = 0.00669438;
+const SCALE_FACTOR = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+// Latitude bands, 8 degrees each from 80°S (X covers 72°N to 84°N)
+const LATITUDE_BANDS = "CDEFGHJKLMNPQRSTUVWX";
+
+// 100 km square letters: columns repeat every three zones, rows every two
+const MGRS_COLUMN_SETS = ["STUVWXYZ", "ABCDEFGH", "JKLMNPQR"];
+const MGRS_ROW_LETTERS = "ABCDEFGHJKLMNPQRSTUV";
+
+/**
+ * Convert a UTM position to latitude and longitude
+ * The band letter (C to X) tells the hemisphere: N and above are north.
+ * Example: zone 18, band T, 585628 mE, 4511322 mN -> 40.7484, -73.9857
+ */
+export function utmToLatLng(
+  zone: number,
+  band: string,
+  easting: number,
+  northing: number
+): { lat: number; lng: number } {
+  const e2 = ECCENTRICITY_SQUARED;
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  const x = easting - FALSE_EASTING;
+  const y = isSouthernBand(band) ? northing - FALSE_NORTHING_SOUTH : northing;
+
+  // Footpoint latitude from the meridian arc length
+  const mu =
+    y /
+    SCALE_FACTOR /
+    (SEMI_MAJOR_AXIS * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 ** 3) / 256));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const n1 = SEMI_MAJOR_AXIS / Math.sqrt(1 - e2 * sinPhi1 * sinPhi1);
+  const t1 = Math.tan(phi1) ** 2;
+  const c1 = ep2 * cosPhi1 * cosPhi1;
+  const r1 =
+    (SEMI_MAJOR_AXIS * (1 - e2)) / Math.pow(1 - e2 * sinPhi1 * sinPhi1, 1.5);
+  const d = x / (n1 * SCALE_FACTOR);
+
+  const lat =
+    phi1 -
+    ((n1 * Math.tan(phi1)) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ep2 - 3 * c1 * c1) *
+          d ** 6) /
+          720);
+  const lng =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) * d ** 5) /
+        120) /
+    cosPhi1;
+
+  return {
+    lat: toDegrees(lat),
+    lng: getCentralMeridian(zone) + toDegrees(lng),
+  };
+}
+
+/**
+ * Convert an MGRS reference to latitude and longitude
+ * The grid square letters are resolved to a full UTM easting and northing.
+ * Example: 18T WL 85628 11322 -> 40.7484, -73.9857
+ */
+export function mgrsToLatLng(
+  zone: number,
+  band: string,
+  square: string,
+  digits: string
+): { lat: number; lng: number } {
+  const precision = digits.length / 2;
+  const scale = Math.pow(10, 5 - precision);
+  const easting = Number(digits.slice(0, precision) || 0) * scale;
+  const northing = Number(digits.slice(precision) || 0) * scale;
+
+  const column = MGRS_COLUMN_SETS[zone % 3].indexOf(square[0]);
+  let row = MGRS_ROW_LETTERS.indexOf(square[1]);
+  if (column === -1 || row === -1) {
+    throw new Error(`Invalid grid square ${square} for zone ${zone}`);
+  }
+
+  // Even zones start their row letters at F
+  if (zone % 2 === 0) {
+    row = (row - 5 + MGRS_ROW_LETTERS.length) % MGRS_ROW_LETTERS.length;
+  }
+
+  // Row letters repeat every 2000 km; pick the cycle that falls in the band
+  let fullNorthing = row * 100000 + northing;
+  const bandNorthing = getBandMinNorthing(band);
+  while (fullNorthing < bandNorthing) {
+    fullNorthing += 2000000;
+  }
+
+  return utmToLatLng(zone, band, (column + 1) * 100000 + easting, fullNorthing);
+}
+
+function isSouthernBand(band: string): boolean {
+  return LATITUDE_BANDS.indexOf(band) < LATITUDE_BANDS.indexOf("N");
+}
+
+// Northing of the band's southern edge on the central meridian, in meters
+function getBandMinNorthing(band: string): number {
+  const minLat = -80 + LATITUDE_BANDS.indexOf(band) * 8;
+  const northing = SCALE_FACTOR * getMeridianArc(toRadians(minLat));
+  return isSouthernBand(band) ? northing + FALSE_NORTHING_SOUTH : northing;
+}
+
+// Distance along the meridian from the equator to a latitude, in meters
+function getMeridianArc(phi: number): number {
+  const e2 = ECCENTRICITY_SQUARED;
+  return (
+    SEMI_MAJOR_AXIS *
+    ((1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 ** 3) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e2 * e2) / 32 + (45 * e2 ** 3) / 1024) *
+        Math.sin(2 * phi) +
+      ((15 * e2 * e2) / 256 + (45 * e2 ** 3) / 1024) * Math.sin(4 * phi) -
+      ((35 * e2 ** 3) / 3072) * Math.sin(6 * phi))
+  );
+}
+
+function getCentralMeridian(zone: number): number {
+  return (zone - 1) * 6 - 180 + 3;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
@@ -0,0 +1,64 @@
+/**
+ * Parse an XML document, such as a GPX or KML file, with the DOMParser that
+ * Obsidian provides
+ * Returns null when the document is not well-formed XML.
+ */
+export function parseXmlDocument(source: string): Document | null {
+  let xmlDocument: Document;
+  try {
+    xmlDocument = new DOMParser().parseFromString(source, "application/xml");
+  } catch (error) {
+    return null; // Some DOMParsers throw instead of returning a parsererror
+  }
+
+  return xmlDocument.getElementsByTagName("parsererror").length > 0
+    ? null
+    : xmlDocument;
+}
+
+/**
+ * Get the child elements of an element or document
+ */
+export function getChildElements(parent: Node): Element[] {
+  const elements: Element[] = [];
+  for (let i = 0; i < parent.childNodes.length; i++) {
+    const child = parent.childNodes[i];
+    if (child.nodeType === 1) {
+      elements.push(child as Element);
+    }
+  }
+  return elements;
+}
+
+/**
+ * Find the first direct child with the given name, ignoring any namespace
+ * prefix
+ */
+export function findChild(parent: Node, name: string): Element | undefined {
+  return getChildElements(parent).find((child) => child.localName === name);
+}
+
+/**
+ * Find every direct child with the given name, ignoring any namespace prefix
+ */
+export function findChildren(parent: Node, name: string): Element[] {
+  return getChildElements(parent).filter((child) => child.localName === name);
+}
+
+/**
+ * Find every element with the given name anywhere below this element
+ */
+export function findDescendants(element: Element, name: string): Element[] {
+  return Array.from(element.getElementsByTagNameNS("*", name));
+}
+
+/**
+ * Get the trimmed text of the first direct child with the given name
+ */
+export function getChildText(
+  element: Element,
+  name: string
+): string | undefined {
+  const text = findChild(element, name)?.textContent?.trim();
+  return text || undefined;
+}
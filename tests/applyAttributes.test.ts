@@ -0,0 +1,48 @@
+import { describe, it, expect } from "bun:test";
+import { applyPinStyle } from "../src/applyAttributes";
+import type { MapConfig } from "../src/parseMapSyntax";
+
+const config: MapConfig = {
+  styles: {
+    museum: { color: "blue", icon: "museum" },
+    cafe: { icon: "coffee", group: "Food" },
+  },
+  groups: { Food: { color: "orange", icon: "restaurant" } },
+};
+
+describe("applyPinStyle", () => {
+  it("should fill in a pin's settings from its named style", () => {
+    expect(applyPinStyle({ lat: 1, lng: 2, style: "museum" }, config)).toEqual({
+      lat: 1,
+      lng: 2,
+      style: "museum",
+      color: "blue",
+      icon: "museum",
+    });
+  });
+
+  it("should let the pin's own attributes win over its style", () => {
+    expect(
+      applyPinStyle({ lat: 1, lng: 2, style: "museum", color: "red" }, config)
+    ).toMatchObject({ color: "red", icon: "museum" });
+  });
+
+  it("should use the defaults of the group a pin or its style puts it in", () => {
+    expect(applyPinStyle({ lat: 1, lng: 2, group: "Food" }, config)).toEqual({
+      lat: 1,
+      lng: 2,
+      group: "Food",
+      color: "orange",
+      icon: "restaurant",
+    });
+    expect(
+      applyPinStyle({ lat: 1, lng: 2, style: "cafe" }, config)
+    ).toMatchObject({ group: "Food", color: "orange", icon: "coffee" });
+  });
+
+  it("should return the pin itself when nothing applies", () => {
+    const pin = { lat: 1, lng: 2, style: "unknown", group: "Sights" };
+    expect(applyPinStyle(pin, config)).toBe(pin);
+    expect(applyPinStyle(pin)).toBe(pin);
+  });
+});
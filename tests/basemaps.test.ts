@@ -0,0 +1,94 @@
+import { describe, it, expect } from "bun:test";
+import {
+  DEFAULT_BASEMAPS,
+  DEFAULT_OVERLAYS,
+  formatLayerList,
+  getBlockLayers,
+  parseLayerList,
+} from "../src/basemaps";
+
+describe("parseLayerList", () => {
+  it("should read names, URLs and optional max zooms", () => {
+    expect(
+      parseLayerList(
+        [
+          "Street | https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+          "",
+          " Satellite |http://localhost:8080/tiles/{z}/{x}/{y}.jpg| 19 ",
+          "No URL",
+        ].join("\n")
+      )
+    ).toEqual([
+      { name: "Street", url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png" },
+      {
+        name: "Satellite",
+        url: "http://localhost:8080/tiles/{z}/{x}/{y}.jpg",
+        maxZoom: 19,
+      },
+    ]);
+  });
+
+  it("should read back the lines formatLayerList writes", () => {
+    const text = formatLayerList(DEFAULT_BASEMAPS);
+
+    expect(text.split("\n")[1]).toBe(
+      "Topo | https://{a-c}.tile.opentopomap.org/{z}/{x}/{y}.png | 17"
+    );
+    expect(parseLayerList(text)).toEqual(DEFAULT_BASEMAPS);
+  });
+});
+
+describe("DEFAULT_BASEMAPS", () => {
+  it("should give each basemap the deepest zoom its server has tiles for", () => {
+    expect(
+      DEFAULT_BASEMAPS.map((layer) => [layer.name, layer.maxZoom])
+    ).toEqual([
+      ["Street", 19],
+      ["Topo", 17],
+      ["Humanitarian", 19],
+    ]);
+  });
+});
+
+describe("getBlockLayers", () => {
+  it("should start with the first basemap and no overlays", () => {
+    expect(getBlockLayers(DEFAULT_BASEMAPS, DEFAULT_OVERLAYS)).toEqual({
+      basemaps: DEFAULT_BASEMAPS,
+      overlays: DEFAULT_OVERLAYS,
+      basemap: "Street",
+      shownOverlays: [],
+    });
+  });
+
+  it("should pick the block's basemap and overlays by name", () => {
+    const layers = getBlockLayers(DEFAULT_BASEMAPS, DEFAULT_OVERLAYS, {
+      basemap: "topo",
+      overlays: ["hiking trails", "Cycling"],
+    });
+
+    expect(layers.basemap).toBe("Topo");
+    expect(layers.shownOverlays).toEqual(["Hiking trails"]);
+    expect(
+      getBlockLayers(DEFAULT_BASEMAPS, [], { basemap: "Satellite" }).basemap
+    ).toBe("Street");
+  });
+
+  it("should show a block's mapLayerURL first", () => {
+    const layers = getBlockLayers(DEFAULT_BASEMAPS, [], {
+      mapLayerURL: "https://example.com/{z}/{x}/{y}.png",
+      basemap: "Topo",
+    });
+
+    expect(layers.basemap).toBe("Custom");
+    expect(layers.basemaps.map((layer) => layer.name)).toEqual([
+      "Custom",
+      "Street",
+      "Topo",
+      "Humanitarian",
+    ]);
+  });
+
+  it("should fall back to the street map without basemaps", () => {
+    expect(getBlockLayers([], []).basemaps).toEqual([DEFAULT_BASEMAPS[0]]);
+  });
+});
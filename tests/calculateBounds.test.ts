@@ -118,4 +118,60 @@ describe("calculateBounds", () => {
       expect(result.zoom).toBeLessThan(3); // Global level should be very low zoom
     });
   });
+
+  describe("radius circles", () => {
+    it("should fit a single pin's radius instead of using a fixed zoom", () => {
+      const pins: MapPin[] = [{ lat: 40.7589, lng: -73.9851, radius: 5000 }];
+      const result = calculateBounds(pins);
+
+      expect(result.center[0]).toBeCloseTo(-73.9851, 4);
+      expect(result.center[1]).toBeCloseTo(40.7589, 4);
+      expect(result.zoom).toBeLessThan(15);
+      expect(result.zoom).toBeGreaterThan(8);
+    });
+
+    it("should zoom out further for larger radii", () => {
+      const small = calculateBounds([
+        { lat: 51.5074, lng: -0.1278, radius: 500 },
+      ]);
+      const large = calculateBounds([
+        { lat: 51.5074, lng: -0.1278, radius: 50000 },
+      ]);
+
+      expect(large.zoom).toBeLessThan(small.zoom);
+    });
+
+    it("should fit circles that extend beyond the other pins", () => {
+      const withoutRadius = calculateBounds([
+        { lat: 48.8566, lng: 2.3522 },
+        { lat: 48.8606, lng: 2.3376 },
+      ]);
+      const withRadius = calculateBounds([
+        { lat: 48.8566, lng: 2.3522, radius: 20000 },
+        { lat: 48.8606, lng: 2.3376 },
+      ]);
+
+      expect(withRadius.zoom).toBeLessThan(withoutRadius.zoom);
+      expect(withRadius.center[0]).toBeCloseTo(2.3522, 1);
+    });
+
+    it("should handle circles crossing the date line", () => {
+      const pins: MapPin[] = [{ lat: -17.7134, lng: 179.9, radius: 100000 }];
+      const result = calculateBounds(pins);
+
+      expect(Math.abs(result.center[0])).toBeGreaterThan(179);
+      expect(result.zoom).toBeGreaterThan(4);
+    });
+  });
+
+  it("should fit a long track without running out of stack", () => {
+    const pins: MapPin[] = [];
+    for (let i = 0; i < 200000; i++) {
+      pins.push({ lat: 46 + i / 200000, lng: 7 + i / 100000 });
+    }
+    const result = calculateBounds(pins);
+
+    expect(result.center[0]).toBeCloseTo(8, 3);
+    expect(result.center[1]).toBeCloseTo(46.5, 3);
+  });
 });
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "bun:test";
+import { getClusterExtent } from "../src/clusters";
+
+describe("getClusterExtent", () => {
+  it("should fit the pins of a cluster", () => {
+    expect(
+      getClusterExtent(
+        [
+          [10, 20],
+          [30, -5],
+          [15, 40],
+        ],
+        12,
+        28
+      )
+    ).toEqual([10, -5, 30, 40]);
+  });
+
+  it("should return null for pins on one spot", () => {
+    expect(
+      getClusterExtent(
+        [
+          [10, 20],
+          [10, 20],
+        ],
+        12,
+        28
+      )
+    ).toBeNull();
+  });
+
+  it("should return null when the map cannot zoom in further", () => {
+    expect(
+      getClusterExtent(
+        [
+          [10, 20],
+          [30, 40],
+        ],
+        19,
+        19
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "bun:test";
+import { getColorValue, isValidColor } from "../src/colors";
+
+describe("isValidColor", () => {
+  it("should accept names, hex values and color functions", () => {
+    expect(isValidColor("red")).toBe(true);
+    expect(isValidColor("Navy")).toBe(true);
+    expect(isValidColor("#abc")).toBe(true);
+    expect(isValidColor("#ff8800cc")).toBe(true);
+    expect(isValidColor("rgba(255, 136, 0, 0.5)")).toBe(true);
+    expect(isValidColor("hsl(30, 100%, 50%)")).toBe(true);
+  });
+
+  it("should reject mistyped colors", () => {
+    expect(isValidColor("gren")).toBe(false);
+    expect(isValidColor("#12345")).toBe(false);
+    expect(isValidColor("rgb(")).toBe(false);
+    expect(isValidColor("constructor")).toBe(false);
+  });
+});
+
+describe("getColorValue", () => {
+  it("should map color names to the values they are drawn with", () => {
+    expect(getColorValue("Red")).toBe("#ff4444");
+    expect(getColorValue("#123456")).toBe("#123456");
+    expect(getColorValue(undefined)).toBeUndefined();
+  });
+});
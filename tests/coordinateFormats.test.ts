@@ -0,0 +1,129 @@
+import { describe, it, expect } from "bun:test";
+import {
+  parseCoordinateNotation,
+  registerCoordinateFormat,
+} from "../src/coordinateFormats";
+
+function expectLocation(
+  text: string,
+  format: string,
+  lat: number,
+  lng: number
+) {
+  const location = parseCoordinateNotation(text);
+  expect(location?.format).toBe(format);
+  expect(location?.lat).toBeCloseTo(lat, 3);
+  expect(location?.lng).toBeCloseTo(lng, 3);
+}
+
+describe("parseCoordinateNotation", () => {
+  it("should read degrees, minutes and seconds", () => {
+    expectLocation(`40°45'32"N 73°59'06"W`, "dms", 40.7589, -73.985);
+    expectLocation(`40° 45' 32.4" N, 73° 59' 6" W`, "dms", 40.759, -73.985);
+    expectLocation("33°51.5′S 151°12.5′E", "dms", -33.8583, 151.2083);
+    expectLocation("N 40° 45.533' W 73° 59.1'", "dms", 40.7589, -73.985);
+    expectLocation("40.7589° -73.9851°", "dms", 40.7589, -73.9851);
+  });
+
+  it("should read longitude first when the hemispheres say so", () => {
+    expectLocation(`73°59'06"W 40°45'32"N`, "dms", 40.7589, -73.985);
+  });
+
+  it("should reject invalid degrees, minutes and seconds", () => {
+    expect(() => parseCoordinateNotation(`40°75'32"N 73°59'06"W`)).toThrow(
+      "Invalid degrees, minutes and seconds"
+    );
+    expect(() => parseCoordinateNotation("40°N 73°S")).toThrow(
+      "Give one latitude (N or S) and one longitude (E or W)"
+    );
+  });
+
+  it("should read UTM coordinates", () => {
+    expectLocation("18T 585628 4511322", "utm", 40.7484, -73.9857);
+    expectLocation("56H 334786mE 6252080mN", "utm", -33.8587, 151.214);
+  });
+
+  it("should read MGRS references", () => {
+    expectLocation("18T WL 85628 11322", "mgrs", 40.7484, -73.9857);
+    expectLocation("18TWL8562811322", "mgrs", 40.7484, -73.9857);
+    expectLocation("56HLH3478652080", "mgrs", -33.8587, 151.214);
+    expect(() => parseCoordinateNotation("18TWL856281132")).toThrow(
+      "Invalid MGRS reference"
+    );
+  });
+
+  it("should read geohashes", () => {
+    expectLocation("u4pruydqqvj", "geohash", 57.6491, 10.4074);
+    expectLocation("geohash:u09tvw0", "geohash", 48.8569, 2.3518);
+    expect(parseCoordinateNotation("tempe")).toBeNull();
+  });
+
+  it("should read geo: URIs", () => {
+    expectLocation("geo:40.7589,-73.9851", "geo", 40.7589, -73.9851);
+    expectLocation("geo:40.7589,-73.9851,12;u=35", "geo", 40.7589, -73.9851);
+    expectLocation(
+      "geo:0,0?q=48.8584,2.2945(Eiffel Tower)",
+      "geo",
+      48.8584,
+      2.2945
+    );
+  });
+
+  it("should read Google Maps links", () => {
+    expectLocation(
+      "https://www.google.com/maps/place/Empire+State+Building/@40.7484405,-73.9882393,17z/data=!3m1!4b1!4m6!3m5!1s0x0:0x0!8m2!3d40.7484405!4d-73.9856644",
+      "url",
+      40.7484,
+      -73.9857
+    );
+    expectLocation(
+      "https://www.google.com/maps/@40.7589,-73.9851,15z",
+      "url",
+      40.7589,
+      -73.9851
+    );
+    expectLocation(
+      "https://maps.google.com/?q=40.7589,-73.9851",
+      "url",
+      40.7589,
+      -73.9851
+    );
+  });
+
+  it("should read OpenStreetMap links", () => {
+    expectLocation(
+      "https://www.openstreetmap.org/?mlat=40.7589&mlon=-73.9851#map=15/40.7500/-73.9800",
+      "url",
+      40.7589,
+      -73.9851
+    );
+    expectLocation(
+      "https://www.openstreetmap.org/#map=17/40.75890/-73.98510",
+      "url",
+      40.7589,
+      -73.9851
+    );
+  });
+
+  it("should report map links without coordinates", () => {
+    expect(() =>
+      parseCoordinateNotation("https://www.google.com/maps/place/Paris")
+    ).toThrow("No coordinates found in map link");
+  });
+
+  it("should return null for other text", () => {
+    expect(parseCoordinateNotation("40.7589, -73.9851")).toBeNull();
+    expect(parseCoordinateNotation("Paris, France")).toBeNull();
+  });
+
+  it("should try registered formats", () => {
+    registerCoordinateFormat({
+      name: "what3words",
+      example: "///filled.count.soap",
+      parse: (text) =>
+        text === "///filled.count.soap" ? { lat: 51.5207, lng: -0.1956 } : null,
+    });
+
+    expectLocation("///filled.count.soap", "what3words", 51.5207, -0.1956);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "bun:test";
+import { applyPinEdit, isEditableBlock } from "../src/editMapBlock";
+import { parseMapSyntax } from "../src/parseMapSyntax";
+
+const source = `---
+zoom: 12
+---
+# Sights
+  [40.7589, -73.9851] Times Square {"color": "red"} # Bright lights
+[87G8Q257+HX] Plus Code pin`;
+
+describe("applyPinEdit", () => {
+  it("should add a pin at the end of the block", () => {
+    expect(
+      applyPinEdit(source + "\n", { type: "add", lat: 40.1234567, lng: -74 })
+    ).toBe(source + "\n[40.123457, -74]");
+    expect(applyPinEdit("", { type: "add", lat: 1, lng: 2 })).toBe("[1, 2]");
+  });
+
+  it("should rewrite an edited pin in place", () => {
+    const [pin] = parseMapSyntax(source).pins;
+    const edited = applyPinEdit(source, {
+      type: "update",
+      pin,
+      changes: { label: "Midtown", color: "", icon: "star" },
+    });
+
+    expect(edited.split("\n")[4]).toBe(
+      '  [40.7589, -73.9851] Midtown {"icon": "star"} # Bright lights'
+    );
+    expect(parseMapSyntax(edited).pins[0]).toMatchObject({
+      label: "Midtown",
+      icon: "star",
+      description: "Bright lights",
+    });
+  });
+
+  it("should write a moved pin as decimal coordinates", () => {
+    const pin = parseMapSyntax(source).pins[1];
+    const edited = applyPinEdit(source, {
+      type: "update",
+      pin,
+      changes: { lat: 40.75, lng: -73.98 },
+    });
+
+    expect(edited.split("\n")[5]).toBe("[40.75, -73.98] Plus Code pin");
+  });
+
+  it("should keep the attributes an edit does not change as written", () => {
+    const block = '[1, 2] A {"tags": ["x", "y"], "rating": 4, "radius": "2km"}';
+    const [pin] = parseMapSyntax(block).pins;
+
+    expect(
+      applyPinEdit(block, { type: "update", pin, changes: { color: "red" } })
+    ).toBe(
+      '[1, 2] A {"tags": ["x","y"], "rating": 4, "radius": "2km", "color": "red"}'
+    );
+  });
+
+  it("should keep a JSON description next to a comment", () => {
+    const block = [
+      '[1, 2] A {"description": "From JSON"} # From comment',
+      '[3, 4] B {"description": "Only JSON"}',
+    ].join("\n");
+    const [first, second] = parseMapSyntax(block).pins;
+
+    const edited = applyPinEdit(
+      applyPinEdit(block, {
+        type: "update",
+        pin: first,
+        changes: { color: "red" },
+      }),
+      { type: "update", pin: second, changes: { color: "blue" } }
+    );
+    expect(edited).toBe(
+      [
+        '[1, 2] A {"description": "From JSON", "color": "red"} # From comment',
+        '[3, 4] B {"description": "Only JSON", "color": "blue"}',
+      ].join("\n")
+    );
+    expect(parseMapSyntax(edited).pins.map((pin) => pin.description)).toEqual([
+      "From comment",
+      "Only JSON",
+    ]);
+  });
+
+  it("should keep a short Plus Code with the place it is recovered near", () => {
+    const block = "[Q257+HX Melbourne] Cafe";
+    const [pin] = parseMapSyntax(block).pins;
+    const edited = applyPinEdit(block, {
+      type: "update",
+      pin,
+      changes: { color: "red" },
+    });
+
+    expect(edited).toBe('[Q257+HX Melbourne] Cafe {"color": "red"}');
+    const result = parseMapSyntax(edited);
+    expect(result.diagnostics).toHaveLength(0);
+    expect(result.pins[0]).toMatchObject({ label: "Cafe", color: "red" });
+    expect(result.pins[0].lat).toBeCloseTo(pin.lat, 6);
+    expect(result.pins[0].lng).toBeCloseTo(pin.lng, 6);
+  });
+
+  it("should rewrite the description lines under an edited pin", () => {
+    const block = "[1, 2] Cafe # Coffee\n  **Open** late\n  daily\n[3, 4]";
+    const [pin] = parseMapSyntax(block).pins;
+
+    expect(
+      applyPinEdit(block, { type: "update", pin, changes: { icon: "cafe" } })
+    ).toBe(
+      '[1, 2] Cafe {"icon": "cafe"} # Coffee\n  **Open** late\n  daily\n[3, 4]'
+    );
+  });
+
+  it("should refuse to edit a line that no longer holds the pin", () => {
+    const [pin] = parseMapSyntax(source).pins;
+    expect(() =>
+      applyPinEdit("# Sights", {
+        type: "update",
+        pin,
+        changes: { label: "Midtown" },
+      })
+    ).toThrow("This pin's line in the block has changed");
+  });
+});
+
+describe("isEditableBlock", () => {
+  it("should accept map syntax but not GeoJSON", () => {
+    expect(isEditableBlock(source)).toBe(true);
+    expect(isEditableBlock("")).toBe(true);
+    expect(isEditableBlock('---\nzoom: 3\n---\n{"type": "Point"}')).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "bun:test";
+import {
+  cacheGeocoder,
+  chainGeocoders,
+  createGazetteerGeocoder,
+  createNominatimGeocoder,
+  type GeocodeResult,
+} from "../src/geocoder";
+import { LOCALITIES, parseLocalityCsv } from "../src/localities";
+
+describe("createGazetteerGeocoder", () => {
+  it("should find places in the given localities", async () => {
+    const geocoder = createGazetteerGeocoder(LOCALITIES);
+
+    expect(await geocoder("Paris, France")).toEqual({
+      lat: 48.8566,
+      lng: 2.3522,
+    });
+    expect(await geocoder("Atlantis")).toBeNull();
+  });
+
+  it("should leave a place in another region to the next geocoder", async () => {
+    const geocoder = chainGeocoders(
+      createGazetteerGeocoder(LOCALITIES),
+      async () => ({ lat: 33.6609, lng: -95.5555 })
+    );
+
+    expect(await geocoder("Paris, Texas")).toEqual({
+      lat: 33.6609,
+      lng: -95.5555,
+    });
+  });
+});
+
+describe("createNominatimGeocoder", () => {
+  it("should search for the place and read the first result", async () => {
+    const urls: string[] = [];
+    const geocoder = createNominatimGeocoder(async (url) => {
+      urls.push(url);
+      return [{ lat: "51.0543", lon: "3.7174", display_name: "Gent" }];
+    }, "https://nominatim.example.org/");
+
+    expect(await geocoder("Ghent, Belgium")).toEqual({
+      lat: 51.0543,
+      lng: 3.7174,
+    });
+    expect(urls).toEqual([
+      "https://nominatim.example.org/search?format=jsonv2&limit=1&q=Ghent%2C%20Belgium",
+    ]);
+  });
+
+  it("should return null when there are no results", async () => {
+    const geocoder = createNominatimGeocoder(async () => []);
+    expect(await geocoder("Atlantis")).toBeNull();
+  });
+});
+
+describe("chainGeocoders", () => {
+  it("should use the first geocoder that finds the place", async () => {
+    const geocoder = chainGeocoders(
+      createGazetteerGeocoder(
+        parseLocalityCsv("Ghent,Belgium,BE,51.0543,3.7174")
+      ),
+      createGazetteerGeocoder(LOCALITIES)
+    );
+
+    expect(await geocoder("Ghent")).toEqual({ lat: 51.0543, lng: 3.7174 });
+    expect(await geocoder("Berlin")).toEqual({ lat: 52.52, lng: 13.405 });
+    expect(await geocoder("Atlantis")).toBeNull();
+  });
+});
+
+describe("cacheGeocoder", () => {
+  it("should remember places that were found", async () => {
+    const lookups: string[] = [];
+    const cache: Record<string, GeocodeResult> = {};
+    let changes = 0;
+    const geocoder = cacheGeocoder(
+      async (place) => {
+        lookups.push(place);
+        return place === "Atlantis" ? null : { lat: 1, lng: 2 };
+      },
+      cache,
+      () => changes++
+    );
+
+    await geocoder("Ghent");
+    expect(await geocoder(" ghent ")).toEqual({ lat: 1, lng: 2 });
+    await geocoder("Atlantis");
+    await geocoder("Atlantis");
+
+    expect(lookups).toEqual(["Ghent", "Atlantis", "Atlantis"]);
+    expect(cache).toEqual({ ghent: { lat: 1, lng: 2 } });
+    expect(changes).toBe(1);
+  });
+
+  it("should look up places named like object properties", async () => {
+    const cache: Record<string, GeocodeResult> = {};
+    const geocoder = cacheGeocoder(
+      async () => ({ lat: 1, lng: 2 }),
+      cache,
+      () => undefined
+    );
+
+    expect(await geocoder("constructor")).toEqual({ lat: 1, lng: 2 });
+    expect(await geocoder("__proto__")).toEqual({ lat: 1, lng: 2 });
+    expect(Object.getPrototypeOf(cache)).toBe(Object.prototype);
+    expect(Object.keys(cache)).toEqual(["constructor"]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "bun:test";
+import type { TFile, Vault } from "obsidian";
+import { loadLinkedFiles, type LinkedFileLoader } from "../src/linkedFiles";
+import type { ParsedMapData } from "../src/parseMapSyntax";
+
+const vault = {} as Vault;
+
+function findFile(path: string): TFile | null {
+  return path === "missing.gpx" ? null : ({ name: path } as TFile);
+}
+
+function emptyMapData(gpx: string[]): ParsedMapData {
+  return {
+    pins: [],
+    polylines: [],
+    polygons: [],
+    diagnostics: [],
+    config: { gpx },
+  };
+}
+
+const loader: LinkedFileLoader = {
+  key: "gpx",
+  name: "GPX",
+  load: async (_vault, file) => {
+    if (file.name === "broken.gpx") throw new Error("Disk error");
+    return {
+      pins: [{ lat: 1, lng: 2, label: file.name }],
+      polylines: [],
+      polygons: [],
+      diagnostics: [],
+    };
+  },
+};
+
+describe("loadLinkedFiles", () => {
+  it("should merge the files named in the config", async () => {
+    const mapData = emptyMapData(["a.gpx", "missing.gpx"]);
+    await loadLinkedFiles(mapData, vault, findFile, [loader]);
+
+    expect(mapData.pins).toEqual([{ lat: 1, lng: 2, label: "a.gpx" }]);
+    expect(mapData.diagnostics.map((d) => d.code)).toEqual(["file-not-found"]);
+  });
+
+  it("should report a file that cannot be read and load the others", async () => {
+    const mapData = emptyMapData(["broken.gpx", "b.gpx"]);
+    await loadLinkedFiles(mapData, vault, findFile, [loader]);
+
+    expect(mapData.pins).toEqual([{ lat: 1, lng: 2, label: "b.gpx" }]);
+    expect(mapData.diagnostics).toEqual([
+      {
+        severity: "error",
+        code: "file-unreadable",
+        message: "broken.gpx: Could not read GPX file: Disk error",
+        fix: "Check that broken.gpx is a GPX file",
+      },
+    ]);
+  });
+
+  it("should drop the line numbers of a file's diagnostics", async () => {
+    const mapData = emptyMapData(["c.gpx"]);
+    await loadLinkedFiles(mapData, vault, findFile, [
+      {
+        ...loader,
+        load: async () => ({
+          pins: [],
+          polylines: [],
+          polygons: [],
+          diagnostics: [
+            { severity: "warning", code: "x", message: "Odd", line: 7 },
+          ],
+        }),
+      },
+    ]);
+
+    expect(mapData.diagnostics[0]).toEqual({
+      severity: "warning",
+      code: "x",
+      message: "c.gpx: Odd",
+      fix: undefined,
+    });
+  });
+});
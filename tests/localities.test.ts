@@ -0,0 +1,56 @@
+import { describe, it, expect } from "bun:test";
+import { findLocality, parseLocalityCsv } from "../src/localities";
+
+describe("findLocality", () => {
+  it("should find a city by name, ignoring case and accents", () => {
+    expect(findLocality("melbourne")?.country).toBe("Australia");
+    expect(findLocality("São Paulo")?.name).toBe("Sao Paulo");
+  });
+
+  it("should pick a place by the region or country after the name", () => {
+    expect(findLocality("New York, NY")?.countryCode).toBe("US");
+    expect(findLocality("Paris, France")?.name).toBe("Paris");
+    expect(findLocality("Perth, WA")?.country).toBe("Australia");
+  });
+
+  it("should return undefined when the part after the name matches nothing", () => {
+    expect(findLocality("London, Ontario")).toBeUndefined();
+    expect(findLocality("Paris, Texas")).toBeUndefined();
+  });
+
+  it("should return undefined for unknown places", () => {
+    expect(findLocality("Atlantis")).toBeUndefined();
+    expect(findLocality("")).toBeUndefined();
+  });
+});
+
+describe("parseLocalityCsv", () => {
+  it("should read localities and skip lines without coordinates", () => {
+    const localities = parseLocalityCsv(
+      [
+        "Ghent,Belgium,BE,51.0543,3.7174",
+        "",
+        "Nowhere,,,north,west",
+        "Austin,United States,US,30.2672,-97.7431,TX",
+      ].join("\n")
+    );
+
+    expect(localities).toEqual([
+      {
+        name: "Ghent",
+        country: "Belgium",
+        countryCode: "BE",
+        lat: 51.0543,
+        lng: 3.7174,
+      },
+      {
+        name: "Austin",
+        country: "United States",
+        countryCode: "US",
+        lat: 30.2672,
+        lng: -97.7431,
+        region: "TX",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "bun:test";
+import {
+  collectNotePins,
+  findNoteLocation,
+  parseLocationProperty,
+} from "../src/noteLocations";
+
+describe("parseLocationProperty", () => {
+  it("should parse a list of numbers", () => {
+    expect(parseLocationProperty([40.7589, -73.9851])).toEqual({
+      lat: 40.7589,
+      lng: -73.9851,
+    });
+  });
+
+  it("should parse a list of strings", () => {
+    expect(parseLocationProperty(["40.7589", " -73.9851"])).toEqual({
+      lat: 40.7589,
+      lng: -73.9851,
+    });
+  });
+
+  it("should parse a comma separated string", () => {
+    expect(parseLocationProperty("40.7589, -73.9851")).toEqual({
+      lat: 40.7589,
+      lng: -73.9851,
+    });
+    expect(parseLocationProperty("[40.7589, -73.9851]")).toEqual({
+      lat: 40.7589,
+      lng: -73.9851,
+    });
+  });
+
+  it("should parse a single-item list holding both numbers", () => {
+    expect(parseLocationProperty(["40.7589,-73.9851"])).toEqual({
+      lat: 40.7589,
+      lng: -73.9851,
+    });
+  });
+
+  it("should reject malformed values", () => {
+    expect(() => parseLocationProperty("Paris")).toThrow(
+      "Invalid location: use [lat, lng]"
+    );
+    expect(() => parseLocationProperty([1, 2, 3])).toThrow(
+      "Invalid location: use [lat, lng]"
+    );
+    expect(() => parseLocationProperty({ lat: 1, lng: 2 })).toThrow(
+      "Invalid location: use [lat, lng]"
+    );
+  });
+
+  it("should reject out of range coordinates", () => {
+    expect(() => parseLocationProperty([95, 0])).toThrow(
+      "Latitude must be between -90 and 90"
+    );
+    expect(() => parseLocationProperty([0, 200])).toThrow(
+      "Longitude must be between -180 and 180"
+    );
+  });
+});
+
+describe("collectNotePins", () => {
+  it("should label pins with the note title and keep the note path", () => {
+    const result = collectNotePins([
+      {
+        path: "Places/Times Square.md",
+        title: "Times Square",
+        frontmatter: { location: [40.7589, -73.9851] },
+      },
+    ]);
+    expect(result.diagnostics).toHaveLength(0);
+    expect(result.pins).toEqual([
+      {
+        lat: 40.7589,
+        lng: -73.9851,
+        label: "Times Square",
+        notePath: "Places/Times Square.md",
+      },
+    ]);
+  });
+
+  it("should skip notes without a location", () => {
+    const result = collectNotePins([
+      { path: "Inbox.md", title: "Inbox" },
+      { path: "Todo.md", title: "Todo", frontmatter: { tags: ["task"] } },
+      { path: "Empty.md", title: "Empty", frontmatter: { location: null } },
+    ]);
+    expect(result.pins).toHaveLength(0);
+    expect(result.diagnostics).toHaveLength(0);
+  });
+
+  it("should report invalid locations with the note path", () => {
+    const result = collectNotePins([
+      { path: "Bad.md", title: "Bad", frontmatter: { location: "somewhere" } },
+      { path: "Good.md", title: "Good", frontmatter: { location: [1, 2] } },
+    ]);
+    expect(result.pins.map((pin) => pin.label)).toEqual(["Good"]);
+    expect(result.diagnostics).toEqual([
+      {
+        severity: "error",
+        code: "invalid-location",
+        message: "Bad.md: Invalid location: use [lat, lng]",
+      },
+    ]);
+  });
+});
+
+describe("findNoteLocation", () => {
+  it("should prefer the location property", () => {
+    const content = "```map\n[1, 2] Somewhere else\n```";
+    expect(findNoteLocation({ location: [48.21, 16.37] }, content)).toEqual({
+      lat: 48.21,
+      lng: 16.37,
+    });
+  });
+
+  it("should fall back to the first pin of the note's map block", () => {
+    const content = `# Cafe Central
+
+Famous coffee house.
+
+\`\`\`map
+---
+labelsOnHover: true
+---
+[48.2104, 16.3655] Cafe Central
+[48.2, 16.3] Somewhere else
+\`\`\`
+`;
+    expect(findNoteLocation({ tags: ["cafe"] }, content)).toEqual({
+      lat: 48.2104,
+      lng: 16.3655,
+    });
+  });
+
+  it("should return null for notes without a location", () => {
+    expect(findNoteLocation(undefined, "Just text")).toBeNull();
+    expect(findNoteLocation(undefined, "```map\n```")).toBeNull();
+  });
+
+  it("should report an invalid location property", () => {
+    expect(() => findNoteLocation({ location: "Vienna" }, "")).toThrow(
+      "Invalid location: use [lat, lng]"
+    );
+  });
+});
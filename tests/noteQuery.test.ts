@@ -0,0 +1,149 @@
+import { describe, it, expect } from "bun:test";
+import type { LocatedNote } from "../src/noteLocations";
+import { parseNoteQuery } from "../src/noteQuery";
+
+const notes: LocatedNote[] = [
+  {
+    path: "Trips/2026/Tokyo.md",
+    title: "Tokyo",
+    frontmatter: { visited: true, rating: 5, companions: ["Sam", "Alex"] },
+    tags: ["#travel/japan"],
+  },
+  {
+    path: "Trips/2026/Paris.md",
+    title: "Paris",
+    frontmatter: { visited: false, rating: 3, country: "France" },
+    tags: ["#travel", "#cancelled"],
+  },
+  {
+    path: "Trips/2025/Rome.md",
+    title: "Rome",
+    frontmatter: { visited: true, rating: "4" },
+    tags: ["#travel"],
+  },
+  {
+    path: "Home.md",
+    title: "Home",
+    tags: ["#Personal"],
+  },
+];
+
+function matching(query: { from?: string; where?: string }): string[] {
+  const predicate = parseNoteQuery(query);
+  if (!predicate) {
+    throw new Error("Expected a query");
+  }
+  return notes.filter(predicate).map((note) => note.title);
+}
+
+describe("parseNoteQuery", () => {
+  it("should return null without a query", () => {
+    expect(parseNoteQuery({})).toBeNull();
+  });
+
+  describe("from", () => {
+    it("should match tags, including nested tags", () => {
+      expect(matching({ from: "#travel" })).toEqual(["Tokyo", "Paris", "Rome"]);
+      expect(matching({ from: "#travel/japan" })).toEqual(["Tokyo"]);
+    });
+
+    it("should match tags without regard to case", () => {
+      expect(matching({ from: "#personal" })).toEqual(["Home"]);
+    });
+
+    it("should match folders and files", () => {
+      expect(matching({ from: '"Trips/2026"' })).toEqual(["Tokyo", "Paris"]);
+      expect(matching({ from: '"Trips/2025/Rome"' })).toEqual(["Rome"]);
+      expect(matching({ from: '"Trips/20"' })).toEqual([]);
+    });
+
+    it("should combine sources with and, or and negation", () => {
+      expect(matching({ from: '#travel and "Trips/2026"' })).toEqual([
+        "Tokyo",
+        "Paris",
+      ]);
+      expect(matching({ from: '"Trips/2025" or #personal' })).toEqual([
+        "Rome",
+        "Home",
+      ]);
+      expect(matching({ from: "#travel and -#cancelled" })).toEqual([
+        "Tokyo",
+        "Rome",
+      ]);
+      expect(
+        matching({ from: '("Trips/2026" or #personal) and not #cancelled' })
+      ).toEqual(["Tokyo", "Home"]);
+    });
+  });
+
+  describe("where", () => {
+    it("should compare booleans", () => {
+      expect(matching({ where: "visited = true" })).toEqual(["Tokyo", "Rome"]);
+      expect(matching({ where: "visited != true" })).toEqual(["Paris", "Home"]);
+    });
+
+    it("should compare numbers, including numeric strings", () => {
+      expect(matching({ where: "rating >= 4" })).toEqual(["Tokyo", "Rome"]);
+      expect(matching({ where: "rating < 4" })).toEqual(["Paris"]);
+    });
+
+    it("should compare strings without regard to case", () => {
+      expect(matching({ where: 'country = "france"' })).toEqual(["Paris"]);
+      expect(matching({ where: "country = France" })).toEqual(["Paris"]);
+    });
+
+    it("should match list properties that contain the value", () => {
+      expect(matching({ where: "companions = Sam" })).toEqual(["Tokyo"]);
+      expect(matching({ where: "companions != Sam" })).toEqual([
+        "Paris",
+        "Rome",
+        "Home",
+      ]);
+    });
+
+    it("should match bare and negated property names", () => {
+      expect(matching({ where: "companions" })).toEqual(["Tokyo"]);
+      expect(matching({ where: "!visited" })).toEqual(["Paris", "Home"]);
+    });
+
+    it("should combine conditions", () => {
+      expect(matching({ where: "visited and rating > 4" })).toEqual(["Tokyo"]);
+      expect(matching({ where: "rating = 3 or country = Italy" })).toEqual([
+        "Paris",
+      ]);
+    });
+  });
+
+  it("should require both from and where to match", () => {
+    expect(matching({ from: "#travel", where: "visited = true" })).toEqual([
+      "Tokyo",
+      "Rome",
+    ]);
+  });
+
+  describe("error handling", () => {
+    it("should report invalid from queries", () => {
+      expect(() => parseNoteQuery({ from: "travel" })).toThrow(
+        'Invalid from query: Expected a #tag or "folder" but found "travel"'
+      );
+      expect(() => parseNoteQuery({ from: "#travel and" })).toThrow(
+        "Invalid from query: Unexpected end of query"
+      );
+      expect(() => parseNoteQuery({ from: '"Trips' })).toThrow(
+        'Invalid from query: Missing closing "'
+      );
+    });
+
+    it("should report invalid where queries", () => {
+      expect(() => parseNoteQuery({ where: "rating >=" })).toThrow(
+        "Invalid where query: Expected a value after rating >="
+      );
+      expect(() => parseNoteQuery({ where: "(visited" })).toThrow(
+        "Invalid where query: Missing closing )"
+      );
+      expect(() => parseNoteQuery({ where: "visited true" })).toThrow(
+        'Invalid where query: Unexpected "true"'
+      );
+    });
+  });
+});
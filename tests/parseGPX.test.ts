@@ -0,0 +1,157 @@
+import { describe, it, expect } from "bun:test";
+import { parseGPX } from "../src/parseGPX";
+
+const gpx = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+${body}
+</gpx>`;
+
+describe("parseGPX", () => {
+  describe("waypoints", () => {
+    it("should parse waypoints as labelled pins", () => {
+      const result = parseGPX(
+        gpx(`
+          <wpt lat="46.5585" lon="7.9973">
+            <ele>2061</ele>
+            <name>Kleine Scheidegg</name>
+            <desc>Train station &amp; hotel</desc>
+            <link href="https://example.com/scheidegg"><text>Info</text></link>
+          </wpt>
+          <wpt lat="46.5775" lon="8.0053"><name>Eiger Glacier</name></wpt>
+        `)
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toEqual([
+        {
+          lat: 46.5585,
+          lng: 7.9973,
+          label: "Kleine Scheidegg",
+          description: "Train station & hotel",
+          link: "https://example.com/scheidegg",
+        },
+        { lat: 46.5775, lng: 8.0053, label: "Eiger Glacier" },
+      ]);
+    });
+
+    it("should use the comment when there is no description", () => {
+      const result = parseGPX(
+        gpx(`<wpt lat="0" lon="0"><cmt>Water source</cmt></wpt>`)
+      );
+      expect(result.pins[0].description).toBe("Water source");
+    });
+  });
+
+  describe("tracks and routes", () => {
+    it("should parse each track segment as a line", () => {
+      const result = parseGPX(
+        gpx(`
+          <trk>
+            <name>Morning hike</name>
+            <desc>Loop around the lake</desc>
+            <trkseg>
+              <trkpt lat="46.1" lon="7.1"><ele>1500</ele><time>2026-07-04T07:00:00Z</time></trkpt>
+              <trkpt lat="46.2" lon="7.2"/>
+            </trkseg>
+            <trkseg>
+              <trkpt lat="46.3" lon="7.3"/>
+              <trkpt lat="46.4" lon="7.4"/>
+              <trkpt lat="46.5" lon="7.5"/>
+            </trkseg>
+          </trk>
+        `)
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines).toHaveLength(2);
+      expect(result.polylines[0]).toEqual({
+        points: [
+          { lat: 46.1, lng: 7.1 },
+          { lat: 46.2, lng: 7.2 },
+        ],
+        label: "Morning hike",
+        description: "Loop around the lake",
+      });
+      expect(result.polylines[1].points).toHaveLength(3);
+      expect(result.polylines[1].label).toBe("Morning hike");
+    });
+
+    it("should read gpx_style line color and width", () => {
+      const result = parseGPX(
+        gpx(`
+          <trk>
+            <extensions>
+              <gpx_style:line xmlns:gpx_style="http://www.topografix.com/GPX/gpx_style/0/2">
+                <gpx_style:color>FF8800</gpx_style:color>
+                <gpx_style:width>5</gpx_style:width>
+              </gpx_style:line>
+            </extensions>
+            <trkseg><trkpt lat="0" lon="0"/><trkpt lat="1" lon="1"/></trkseg>
+          </trk>
+        `)
+      );
+      expect(result.polylines[0].color).toBe("#FF8800");
+      expect(result.polylines[0].width).toBe(5);
+    });
+
+    it("should parse routes as dashed lines", () => {
+      const result = parseGPX(
+        gpx(`
+          <rte>
+            <name>Planned ride</name>
+            <rtept lat="52.52" lon="13.405"/>
+            <rtept lat="52.39" lon="13.065"/>
+          </rte>
+        `)
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines[0]).toMatchObject({
+        label: "Planned ride",
+        dash: "dashed",
+      });
+    });
+
+    it("should skip segments with fewer than two points", () => {
+      const result = parseGPX(
+        gpx(`<trk><trkseg><trkpt lat="0" lon="0"/></trkseg></trk>`)
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines).toHaveLength(0);
+    });
+  });
+
+  describe("error handling", () => {
+    it("should report malformed XML", () => {
+      const result = parseGPX("<gpx><trk></gpx>");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("Invalid GPX");
+    });
+
+    it("should report files without a gpx element", () => {
+      const result = parseGPX("<kml></kml>");
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "error",
+          code: "invalid-gpx",
+          message: "Invalid GPX: missing <gpx> element",
+        },
+      ]);
+    });
+
+    it("should report invalid points and keep the rest", () => {
+      const result = parseGPX(
+        gpx(`
+          <wpt lat="north" lon="0"/>
+          <wpt lat="1" lon="1"/>
+          <trk><trkseg><trkpt lat="0" lon="200"/><trkpt lat="1" lon="1"/></trkseg></trk>
+        `)
+      );
+      expect(result.pins).toHaveLength(1);
+      expect(
+        result.diagnostics.map((diagnostic) => diagnostic.message)
+      ).toEqual([
+        "Waypoint 1: Invalid coordinates",
+        "Track 1: Longitude must be between -180 and 180",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import { describe, it, expect } from "bun:test";
+import { parseGeoJSON } from "../src/parseGeoJSON";
+
+describe("parseGeoJSON", () => {
+  describe("geometry types", () => {
+    it("should parse a Point feature as a pin", () => {
+      const result = parseGeoJSON({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [-73.9851, 40.7589] },
+        properties: { name: "Times Square" },
+      });
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toEqual([
+        { lat: 40.7589, lng: -73.9851, label: "Times Square" },
+      ]);
+    });
+
+    it("should parse a LineString as a polyline", () => {
+      const result = parseGeoJSON({
+        type: "LineString",
+        coordinates: [
+          [2.3522, 48.8566],
+          [4.3517, 50.8503],
+        ],
+      });
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines).toEqual([
+        {
+          points: [
+            { lat: 48.8566, lng: 2.3522 },
+            { lat: 50.8503, lng: 4.3517 },
+          ],
+        },
+      ]);
+    });
+
+    it("should parse a Polygon outer ring without the closing position", () => {
+      const result = parseGeoJSON({
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+            [0, 0],
+          ],
+          [
+            [0.2, 0.2],
+            [0.4, 0.2],
+            [0.4, 0.4],
+            [0.2, 0.2],
+          ],
+        ],
+      });
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polygons).toEqual([
+        {
+          points: [
+            { lat: 0, lng: 0 },
+            { lat: 0, lng: 1 },
+            { lat: 1, lng: 1 },
+          ],
+        },
+      ]);
+    });
+
+    it("should split multi geometries and geometry collections", () => {
+      const result = parseGeoJSON({
+        type: "Feature",
+        geometry: {
+          type: "GeometryCollection",
+          geometries: [
+            {
+              type: "MultiPoint",
+              coordinates: [
+                [0, 0],
+                [1, 1],
+              ],
+            },
+            {
+              type: "MultiLineString",
+              coordinates: [
+                [
+                  [0, 0],
+                  [1, 1],
+                ],
+                [
+                  [2, 2],
+                  [3, 3],
+                ],
+              ],
+            },
+            {
+              type: "MultiPolygon",
+              coordinates: [
+                [
+                  [
+                    [0, 0],
+                    [1, 0],
+                    [1, 1],
+                  ],
+                ],
+              ],
+            },
+          ],
+        },
+        properties: { group: "mixed" },
+      });
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toHaveLength(2);
+      expect(result.polylines).toHaveLength(2);
+      expect(result.polygons).toHaveLength(1);
+      expect(result.pins[1].group).toBe("mixed");
+      expect(result.polygons[0].group).toBe("mixed");
+    });
+
+    it("should parse a FeatureCollection from a string", () => {
+      const result = parseGeoJSON(
+        JSON.stringify({
+          type: "FeatureCollection",
+          features: [
+            {
+              type: "Feature",
+              geometry: { type: "Point", coordinates: [-0.1278, 51.5074] },
+              properties: { name: "London" },
+            },
+            {
+              type: "Feature",
+              geometry: { type: "Point", coordinates: [2.3522, 48.8566] },
+              properties: { name: "Paris" },
+            },
+          ],
+        })
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins.map((pin) => pin.label)).toEqual(["London", "Paris"]);
+    });
+
+    it("should skip features without geometry", () => {
+      const result = parseGeoJSON({
+        type: "FeatureCollection",
+        features: [{ type: "Feature", geometry: null, properties: {} }],
+      });
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toHaveLength(0);
+    });
+  });
+
+  describe("properties", () => {
+    it("should map pin properties", () => {
+      const result = parseGeoJSON({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [2.2945, 48.8584] },
+        properties: {
+          title: "Eiffel Tower",
+          color: "blue",
+          icon: "star",
+          group: "landmarks",
+          description: "Iron lattice tower",
+          link: "https://www.toureiffel.paris",
+          height: 330,
+        },
+      });
+      expect(result.pins[0]).toEqual({
+        lat: 48.8584,
+        lng: 2.2945,
+        label: "Eiffel Tower",
+        color: "blue",
+        icon: "star",
+        group: "landmarks",
+        description: "Iron lattice tower",
+        link: "https://www.toureiffel.paris",
+      });
+    });
+
+    it("should treat null properties as absent", () => {
+      const result = parseGeoJSON({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [2.2945, 48.8584] },
+        properties: {
+          name: "Eiffel Tower",
+          color: null,
+          radius: null,
+          weight: null,
+          iconSize: null,
+          iconAnchor: null,
+          height: null,
+        },
+      });
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toEqual([
+        { lat: 48.8584, lng: 2.2945, label: "Eiffel Tower" },
+      ]);
+    });
+
+    it("should prefer label over name and title", () => {
+      const result = parseGeoJSON({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [0, 0] },
+        properties: { label: "Label", name: "Name", title: "Title" },
+      });
+      expect(result.pins[0].label).toBe("Label");
+    });
+
+    it("should read simplestyle property names", () => {
+      const result = parseGeoJSON({
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [0, 0] },
+            properties: { "marker-color": "#ff0000", "marker-symbol": "cafe" },
+          },
+          {
+            type: "Feature",
+            geometry: {
+              type: "LineString",
+              coordinates: [
+                [0, 0],
+                [1, 1],
+              ],
+            },
+            properties: { stroke: "#00ff00", "stroke-width": 3 },
+          },
+          {
+            type: "Feature",
+            geometry: {
+              type: "Polygon",
+              coordinates: [
+                [
+                  [0, 0],
+                  [1, 0],
+                  [1, 1],
+                  [0, 0],
+                ],
+              ],
+            },
+            properties: {
+              fill: "#0000ff",
+              "fill-opacity": 0.5,
+              stroke: "#000000",
+              "stroke-width": 1,
+            },
+          },
+        ],
+      });
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0].color).toBe("#ff0000");
+      expect(result.pins[0].icon).toBe("cafe");
+      expect(result.polylines[0].color).toBe("#00ff00");
+      expect(result.polylines[0].width).toBe(3);
+      expect(result.polygons[0]).toMatchObject({
+        fill: "#0000ff",
+        opacity: 0.5,
+        stroke: "#000000",
+        width: 1,
+      });
+    });
+  });
+
+  describe("error handling", () => {
+    it("should report invalid JSON", () => {
+      const result = parseGeoJSON("{not json");
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "error",
+          code: "invalid-geojson",
+          message: "Invalid GeoJSON: could not parse JSON",
+        },
+      ]);
+    });
+
+    it("should report invalid features and keep the rest", () => {
+      const result = parseGeoJSON({
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [0, 95] },
+            properties: {},
+          },
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [1, 1] },
+            properties: {},
+          },
+          {
+            type: "Feature",
+            geometry: { type: "Circle", coordinates: [0, 0] },
+            properties: {},
+          },
+        ],
+      });
+      expect(result.pins).toHaveLength(1);
+      expect(result.diagnostics).toHaveLength(2);
+      expect(result.diagnostics[0].message).toContain(
+        "Feature 1: Latitude must be"
+      );
+      expect(result.diagnostics[1].message).toContain(
+        "Feature 3: Unsupported geometry type"
+      );
+    });
+
+    it("should report degenerate lines and polygons", () => {
+      const result = parseGeoJSON({
+        type: "GeometryCollection",
+        geometries: [
+          { type: "LineString", coordinates: [[0, 0]] },
+          {
+            type: "Polygon",
+            coordinates: [
+              [
+                [0, 0],
+                [1, 1],
+                [0, 0],
+              ],
+            ],
+          },
+        ],
+      });
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("at least 2 positions");
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect } from "bun:test";
+import { strToU8, zipSync } from "fflate";
+import { parseKML, parseKMZ } from "../src/parseKML";
+
+const kml = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>My Places</name>
+    ${body}
+  </Document>
+</kml>`;
+
+describe("parseKML", () => {
+  describe("placemarks", () => {
+    it("should parse Point placemarks as pins", () => {
+      const result = parseKML(
+        kml(`
+          <Placemark>
+            <name>Flinders Street Station</name>
+            <description>Meet under the clocks</description>
+            <Point><coordinates>144.9671,-37.8183,0</coordinates></Point>
+          </Placemark>
+        `)
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toEqual([
+        {
+          lat: -37.8183,
+          lng: 144.9671,
+          label: "Flinders Street Station",
+          description: "Meet under the clocks",
+        },
+      ]);
+    });
+
+    it("should parse LineString placemarks as lines", () => {
+      const result = parseKML(
+        kml(`
+          <Placemark>
+            <name>Tram route</name>
+            <LineString>
+              <tessellate>1</tessellate>
+              <coordinates>
+                144.9671,-37.8183,0
+                144.9631,-37.8136,0
+                144.9568,-37.8102,0
+              </coordinates>
+            </LineString>
+          </Placemark>
+        `)
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines).toEqual([
+        {
+          points: [
+            { lat: -37.8183, lng: 144.9671 },
+            { lat: -37.8136, lng: 144.9631 },
+            { lat: -37.8102, lng: 144.9568 },
+          ],
+          label: "Tram route",
+        },
+      ]);
+    });
+
+    it("should parse Polygon placemarks using the outer ring", () => {
+      const result = parseKML(
+        kml(`
+          <Placemark>
+            <name>Gardens</name>
+            <Polygon>
+              <outerBoundaryIs><LinearRing><coordinates>
+                144.97,-37.82 144.98,-37.82 144.98,-37.83 144.97,-37.82
+              </coordinates></LinearRing></outerBoundaryIs>
+              <innerBoundaryIs><LinearRing><coordinates>
+                144.975,-37.823 144.976,-37.823 144.976,-37.824 144.975,-37.823
+              </coordinates></LinearRing></innerBoundaryIs>
+            </Polygon>
+          </Placemark>
+        `)
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polygons).toEqual([
+        {
+          points: [
+            { lat: -37.82, lng: 144.97 },
+            { lat: -37.82, lng: 144.98 },
+            { lat: -37.83, lng: 144.98 },
+          ],
+          label: "Gardens",
+        },
+      ]);
+    });
+
+    it("should split MultiGeometry placemarks", () => {
+      const result = parseKML(
+        kml(`
+          <Placemark>
+            <name>Campus</name>
+            <MultiGeometry>
+              <Point><coordinates>0,0</coordinates></Point>
+              <LineString><coordinates>0,0 1,1</coordinates></LineString>
+            </MultiGeometry>
+          </Placemark>
+        `)
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0].label).toBe("Campus");
+      expect(result.polylines[0].label).toBe("Campus");
+    });
+
+    it("should strip HTML from descriptions", () => {
+      const result = parseKML(
+        kml(`
+          <Placemark>
+            <description><![CDATA[<b>Open</b> daily<br>9am &ndash; 5pm]]></description>
+            <Point><coordinates>0,0</coordinates></Point>
+          </Placemark>
+        `)
+      );
+      expect(result.pins[0].description).toBe("Open daily\n9am &ndash; 5pm");
+    });
+  });
+
+  describe("folders", () => {
+    it("should use the folder name as the group", () => {
+      const result = parseKML(
+        kml(`
+          <Folder>
+            <name>Cafes</name>
+            <Placemark><Point><coordinates>0,0</coordinates></Point></Placemark>
+            <Folder>
+              <name>Rooftop</name>
+              <Placemark><Point><coordinates>1,1</coordinates></Point></Placemark>
+            </Folder>
+          </Folder>
+          <Placemark><Point><coordinates>2,2</coordinates></Point></Placemark>
+        `)
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins.map((pin) => pin.group)).toEqual([
+        "Cafes",
+        "Rooftop",
+        undefined,
+      ]);
+    });
+  });
+
+  describe("styles", () => {
+    it("should convert shared icon styles to pin colors and icons", () => {
+      const result = parseKML(
+        kml(`
+          <Style id="icon-food">
+            <IconStyle>
+              <color>ff0288d1</color>
+              <Icon><href>http://maps.google.com/mapfiles/kml/shapes/dining.png</href></Icon>
+            </IconStyle>
+          </Style>
+          <Placemark>
+            <styleUrl>#icon-food</styleUrl>
+            <Point><coordinates>0,0</coordinates></Point>
+          </Placemark>
+        `)
+      );
+      expect(result.pins[0].color).toBe("#d18802");
+      expect(result.pins[0].icon).toBe("restaurant");
+    });
+
+    it("should resolve StyleMaps to their normal style", () => {
+      const result = parseKML(
+        kml(`
+          <Style id="line-normal"><LineStyle><color>ff0000ff</color><width>4</width></LineStyle></Style>
+          <Style id="line-highlight"><LineStyle><color>ff00ff00</color><width>8</width></LineStyle></Style>
+          <StyleMap id="line-map">
+            <Pair><key>normal</key><styleUrl>#line-normal</styleUrl></Pair>
+            <Pair><key>highlight</key><styleUrl>#line-highlight</styleUrl></Pair>
+          </StyleMap>
+          <Placemark>
+            <styleUrl>#line-map</styleUrl>
+            <LineString><coordinates>0,0 1,1</coordinates></LineString>
+          </Placemark>
+        `)
+      );
+      expect(result.polylines[0].color).toBe("#ff0000");
+      expect(result.polylines[0].width).toBe(4);
+    });
+
+    it("should map polygon styles to fill, opacity and stroke", () => {
+      const result = parseKML(
+        kml(`
+          <Placemark>
+            <Style>
+              <LineStyle><color>ff000000</color><width>2</width></LineStyle>
+              <PolyStyle><color>4c00ff00</color></PolyStyle>
+            </Style>
+            <Polygon><outerBoundaryIs><LinearRing>
+              <coordinates>0,0 1,0 1,1 0,0</coordinates>
+            </LinearRing></outerBoundaryIs></Polygon>
+          </Placemark>
+        `)
+      );
+      expect(result.polygons[0]).toMatchObject({
+        fill: "#00ff00",
+        opacity: 0.3,
+        stroke: "#000000",
+        width: 2,
+      });
+    });
+
+    it("should leave unknown icons unset", () => {
+      const result = parseKML(
+        kml(`
+          <Placemark>
+            <Style><IconStyle><Icon><href>https://www.gstatic.com/mapspro/images/stock/503-wht-blank_maps.png</href></Icon></IconStyle></Style>
+            <Point><coordinates>0,0</coordinates></Point>
+          </Placemark>
+        `)
+      );
+      expect(result.pins[0].icon).toBeUndefined();
+    });
+  });
+
+  describe("error handling", () => {
+    it("should report files without a kml element", () => {
+      const result = parseKML("<gpx></gpx>");
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "error",
+          code: "invalid-kml",
+          message: "Invalid KML: missing <kml> element",
+        },
+      ]);
+    });
+
+    it("should report invalid placemarks and keep the rest", () => {
+      const result = parseKML(
+        kml(`
+          <Placemark><Point><coordinates>0,95</coordinates></Point></Placemark>
+          <Placemark><name>Empty</name></Placemark>
+          <Placemark><Point><coordinates>1,1</coordinates></Point></Placemark>
+        `)
+      );
+      expect(result.pins).toHaveLength(1);
+      expect(
+        result.diagnostics.map((diagnostic) => diagnostic.message)
+      ).toEqual([
+        "Placemark 1: Latitude must be between -90 and 90",
+        "Placemark 2: No supported geometry",
+      ]);
+    });
+  });
+});
+
+describe("parseKMZ", () => {
+  it("should parse the KML document inside the archive", () => {
+    const archive = zipSync({
+      "doc.kml": strToU8(
+        kml(
+          `<Placemark><name>Zipped</name><Point><coordinates>1,2</coordinates></Point></Placemark>`
+        )
+      ),
+      "images/icon.png": new Uint8Array([137, 80, 78, 71]),
+    });
+    const result = parseKMZ(archive);
+    expect(result.diagnostics).toHaveLength(0);
+    expect(result.pins).toEqual([{ lat: 2, lng: 1, label: "Zipped" }]);
+  });
+
+  it("should report archives without a KML document", () => {
+    const archive = zipSync({ "readme.txt": strToU8("hello") });
+    expect(parseKMZ(archive).diagnostics[0].message).toEqual(
+      "Invalid KMZ: no .kml file in archive"
+    );
+  });
+
+  it("should report data that is not a zip archive", () => {
+    expect(parseKMZ(strToU8("not a zip")).diagnostics[0].message).toEqual(
+      "Invalid KMZ: could not unzip archive"
+    );
+  });
+
+  it("should report a truncated archive", () => {
+    const archive = zipSync({
+      "doc.kml": strToU8(
+        kml(
+          `<Placemark><name>Cut</name><Point><coordinates>1,2</coordinates></Point></Placemark>`
+        )
+      ),
+    });
+    for (const length of [archive.length - 10, archive.length / 2, 30]) {
+      const result = parseKMZ(archive.slice(0, Math.floor(length)));
+      expect(result.pins).toHaveLength(0);
+      expect(result.diagnostics[0].code).toBe("invalid-kmz");
+    }
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect } from "bun:test";
+import { parseMapConfig } from "../src/parseMapConfig";
+import { parseMapSyntax } from "../src/parseMapSyntax";
+
+describe("parseMapConfig", () => {
+  it("should read the view settings", () => {
+    const { config, diagnostics } = parseMapConfig(
+      [
+        "center: [48.8566, 2.3522]",
+        "zoom: 12",
+        "minZoom: 4",
+        "maxZoom: 18",
+        "bounds: [[48.80, 2.25], [48.90, 2.42]]",
+      ].join("\n")
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(config).toEqual({
+      center: { lat: 48.8566, lng: 2.3522 },
+      zoom: 12,
+      minZoom: 4,
+      maxZoom: 18,
+      bounds: [
+        { lat: 48.8, lng: 2.25 },
+        { lat: 48.9, lng: 2.42 },
+      ],
+    });
+  });
+
+  it("should read block lists and quoted strings", () => {
+    const { config } = parseMapConfig(
+      [
+        'mapLayerURL: "https://a.tile.openstreetmap.fr/hot/{z}/{x}/{y}.png"',
+        "gpx:",
+        '  - "[[Day 1.gpx]]"',
+        "  - Day 2.gpx",
+      ].join("\n")
+    );
+
+    expect(config.mapLayerURL).toBe(
+      "https://a.tile.openstreetmap.fr/hot/{z}/{x}/{y}.png"
+    );
+    expect(config.gpx).toEqual(["Day 1.gpx", "Day 2.gpx"]);
+  });
+
+  it("should keep several wiki links on one line", () => {
+    const { config, diagnostics } = parseMapConfig(
+      "gpx: [[Day 1.gpx]] [[Day 2.gpx|Second day]]"
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(config.gpx).toEqual(["Day 1.gpx", "Day 2.gpx"]);
+  });
+
+  it("should keep queries as written", () => {
+    const { config } = parseMapConfig(
+      ['from: #travel and -"Trips/2025"', "where: !visited"].join("\n")
+    );
+
+    expect(config.from).toBe('#travel and -"Trips/2025"');
+    expect(config.where).toBe("!visited");
+  });
+
+  it("should read a height in pixels or CSS units", () => {
+    expect(parseMapConfig("height: 500").config.height).toBe("500px");
+    expect(parseMapConfig("height: 60vh").config.height).toBe("60vh");
+  });
+
+  it("should read the layout settings", () => {
+    const { config, diagnostics } = parseMapConfig(
+      [
+        "width: 50%",
+        "aspectRatio: 16:9",
+        "align: center",
+        "float: right",
+        "inline: true",
+      ].join("\n")
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(config).toEqual({
+      width: "50%",
+      aspectRatio: 16 / 9,
+      align: "center",
+      float: "right",
+      inline: true,
+    });
+  });
+
+  it("should read aspect ratios as fractions or numbers", () => {
+    expect(parseMapConfig("aspectRatio: 4/3").config.aspectRatio).toBe(4 / 3);
+    expect(parseMapConfig("aspectRatio: 1.5").config.aspectRatio).toBe(1.5);
+  });
+
+  it("should warn about unsupported layout values", () => {
+    const { config, diagnostics } = parseMapConfig(
+      ["width: 50vh", "aspectRatio: wide", "float: center"].join("\n")
+    );
+
+    expect(config).toEqual({});
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'Invalid width: expected a width like 300 or "50%"',
+      'Invalid aspectRatio: expected a ratio like "16:9" or 1.5',
+      "Invalid float: expected one of left, right",
+    ]);
+  });
+
+  it("should read a Plus Code reference as a city or coordinates", () => {
+    expect(
+      parseMapConfig("plusCodeReference: Paris, France").config
+        .plusCodeReference
+    ).toEqual({ lat: 48.8566, lng: 2.3522 });
+    expect(
+      parseMapConfig("plusCodeReference: [-37.81, 144.96]").config
+        .plusCodeReference
+    ).toEqual({ lat: -37.81, lng: 144.96 });
+    expect(parseMapConfig("plusCodeReference: Atlantis").diagnostics).toEqual([
+      expect.objectContaining({
+        message:
+          "Invalid plusCodeReference: expected [lat, lng] or the name of a large city",
+      }),
+    ]);
+  });
+
+  it("should read the heatmap settings", () => {
+    expect(
+      parseMapConfig("mode: heatmap\nheatmapRadius: 12\nheatmapBlur: 20").config
+    ).toEqual({ mode: "heatmap", heatmapRadius: 12, heatmapBlur: 20 });
+
+    const { config, diagnostics } = parseMapConfig(
+      "mode: dots\nheatmapBlur: -3"
+    );
+    expect(config).toEqual({});
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Invalid mode: expected one of pins, heatmap",
+      "Invalid heatmapBlur: expected a number of pixels, like 10",
+    ]);
+  });
+
+  it("should read the image icon size and anchor", () => {
+    expect(parseMapConfig("iconSize: 24\niconAnchor: [0.5, 1]").config).toEqual(
+      { iconSize: 24, iconAnchor: [0.5, 1] }
+    );
+    expect(parseMapConfig("iconAnchor: middle").diagnostics).toEqual([
+      expect.objectContaining({
+        message:
+          "Invalid iconAnchor: expected center, bottom, top, left, right or [x, y]",
+      }),
+    ]);
+  });
+
+  it("should read clustering as true, false or a distance", () => {
+    expect(parseMapConfig("cluster: true").config).toEqual({ cluster: 40 });
+    expect(parseMapConfig("cluster: false").config).toEqual({ cluster: 0 });
+    expect(parseMapConfig("cluster: 60").config).toEqual({ cluster: 60 });
+    expect(parseMapConfig("cluster: lots").diagnostics).toEqual([
+      expect.objectContaining({
+        message:
+          "Invalid cluster: expected true or a distance in pixels, like 40",
+      }),
+    ]);
+  });
+
+  it("should read a basemap and overlays by name", () => {
+    expect(
+      parseMapConfig("basemap: Topo\noverlays: [Hiking trails, Cycling]").config
+    ).toEqual({ basemap: "Topo", overlays: ["Hiking trails", "Cycling"] });
+    expect(parseMapConfig("overlays: Hiking trails").config).toEqual({
+      overlays: ["Hiking trails"],
+    });
+    expect(parseMapConfig("overlays: [{ name: Trails }]").diagnostics).toEqual([
+      expect.objectContaining({
+        message: "Invalid overlays: expected a name or a list of names",
+      }),
+    ]);
+  });
+
+  it("should read named styles and group defaults", () => {
+    const { config, diagnostics } = parseMapConfig(
+      [
+        "styles:",
+        "  museum: { color: blue, icon: museum }",
+        "  cafe: { icon: coffee, group: Food }",
+        "groups: { Food: { color: orange } }",
+      ].join("\n")
+    );
+
+    expect(diagnostics).toHaveLength(0);
+    expect(config).toEqual({
+      styles: {
+        museum: { color: "blue", icon: "museum" },
+        cafe: { icon: "coffee", group: "Food" },
+      },
+      groups: { Food: { color: "orange" } },
+    });
+  });
+
+  it("should reject styles that are not maps of text settings", () => {
+    const { config, diagnostics } = parseMapConfig(
+      ["styles: museum", "groups: { Food: { color: orange, size: 3 } }"].join(
+        "\n"
+      )
+    );
+
+    expect(config).toEqual({});
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Invalid styles: expected names with their styles, like { museum: { color: blue } }",
+      "Invalid groups: Food has size; expected color, icon",
+    ]);
+  });
+
+  it("should suggest the closest setting for a typo", () => {
+    const { config, diagnostics } = parseMapConfig("zoom: 3\nzooom: 12", 2);
+
+    expect(config).toEqual({ zoom: 3 });
+    expect(diagnostics).toEqual([
+      {
+        severity: "warning",
+        code: "unknown-config-key",
+        message: "Unknown setting: zooom",
+        line: 3,
+        column: 1,
+        fix: "Did you mean zoom?",
+      },
+    ]);
+  });
+
+  it("should list the known settings for an unrelated key", () => {
+    const { diagnostics } = parseMapConfig("colour scheme: dark");
+
+    expect(diagnostics[0].code).toBe("unknown-config-key");
+    expect(diagnostics[0].fix).toContain("labelsOnHover");
+  });
+
+  it("should warn about values of the wrong type and leave them out", () => {
+    const { config, diagnostics } = parseMapConfig(
+      ["labelsOnHover: yes please", "zoom: 40", "center: Paris"].join("\n")
+    );
+
+    expect(config).toEqual({});
+    expect(diagnostics.map((d) => [d.code, d.message, d.line])).toEqual([
+      [
+        "invalid-config-value",
+        "Invalid labelsOnHover: expected true or false",
+        1,
+      ],
+      [
+        "invalid-config-value",
+        "Invalid zoom: expected a zoom level from 0 to 28",
+        2,
+      ],
+      [
+        "invalid-config-value",
+        "Invalid center: Invalid location: use [lat, lng]",
+        3,
+      ],
+    ]);
+    expect(diagnostics.every((d) => d.severity === "warning")).toBe(true);
+  });
+
+  it("should drop a zoom range where minZoom is greater than maxZoom", () => {
+    const { config, diagnostics } = parseMapConfig("minZoom: 10\nmaxZoom: 5");
+
+    expect(config).toEqual({});
+    expect(diagnostics[0].message).toBe("minZoom is greater than maxZoom");
+  });
+
+  it("should report YAML syntax errors on their line", () => {
+    const { diagnostics } = parseMapConfig(
+      'zoom: 4\ncenter: [48.85, 2.35\nheight: "400px',
+      2
+    );
+
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(diagnostics[0].severity).toBe("error");
+    expect(diagnostics[0].code).toBe("invalid-yaml");
+    expect(diagnostics[0].line).toBeGreaterThanOrEqual(3);
+  });
+
+  it("should warn when the settings are not key: value lines", () => {
+    const { diagnostics } = parseMapConfig("- zoom\n- center");
+
+    expect(diagnostics[0].code).toBe("invalid-config");
+  });
+
+  it("should report config diagnostics from a map block on block lines", () => {
+    const result = parseMapSyntax(
+      [
+        "---",
+        "zoom: 12",
+        "labelOnHover: true",
+        "---",
+        "[40.7, -74.0] NYC",
+      ].join("\n")
+    );
+
+    expect(result.pins).toHaveLength(1);
+    expect(result.config).toEqual({ zoom: 12 });
+    expect(result.diagnostics).toMatchObject([
+      {
+        code: "unknown-config-key",
+        line: 3,
+        fix: "Did you mean labelsOnHover?",
+      },
+    ]);
+  });
+});
@@ -1,33 +1,41 @@
 import { describe, it, expect } from "bun:test";
-import { parseMapSyntax } from "../src/parseMapSyntax";
+import {
+  parseMapSyntax,
+  type MapPin,
+  type MapPolygon,
+  type MapPolyline,
+} from "../src/parseMapSyntax";
+import { serializeMapSyntax } from "../src/serializeMapSyntax";
 
 describe("parseMapSyntax", () => {
   describe("new bracket syntax", () => {
     it("should parse coordinates only", () => {
       const result = parseMapSyntax("[40.7589, -73.9851]");
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(1);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
+        line: 1,
       });
       expect(result.pins[0].plusCode).toBeUndefined();
     });
 
     it("should parse coordinates with label", () => {
       const result = parseMapSyntax("[40.7589, -73.9851] Times Square");
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(1);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         label: "Times Square",
+        line: 1,
       });
     });
 
     it("should parse coordinates with quoted label", () => {
       const result = parseMapSyntax('[40.7589, -73.9851] "Times Square NYC"');
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0].label).toBe("Times Square NYC");
     });
 
@@ -35,12 +43,13 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         '[40.7589, -73.9851] {"color": "red", "icon": "star"}'
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         color: "red",
         icon: "star",
+        line: 1,
       });
     });
 
@@ -48,7 +57,7 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         '[40.7589, -73.9851] Times Square {"color": "red", "icon": "star", "group": "attractions"}'
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
@@ -56,6 +65,7 @@ describe("parseMapSyntax", () => {
         color: "red",
         icon: "star",
         group: "attractions",
+        line: 1,
       });
     });
 
@@ -63,13 +73,14 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         '[48.8566, 2.3522] "Eiffel Tower, Paris" {"color": "blue", "group": "landmarks"}'
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 48.8566,
         lng: 2.3522,
         label: "Eiffel Tower, Paris",
         color: "blue",
         group: "landmarks",
+        line: 1,
       });
     });
 
@@ -77,26 +88,64 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         '[ 40.7589 , -73.9851 ]   Times Square   { "color" : "red" }'
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         label: "Times Square",
         color: "red",
+        line: 1,
       });
     });
 
-    it("should ignore unknown JSON attributes", () => {
+    it("should keep unknown JSON attributes as properties", () => {
       const result = parseMapSyntax(
-        '[40.7589, -73.9851] {"color": "red", "unknown": "value", "size": 10}'
+        '[40.7589, -73.9851] {"color": "red", "unknown": "value", "size": 10, "open": false}'
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         color: "red",
+        line: 1,
+        properties: { unknown: "value", size: 10, open: false },
       });
     });
+
+    it("should only keep text, numbers and booleans as properties", () => {
+      const result = parseMapSyntax(
+        '[[Cafe Central]] {"rating": 4.5, "tags": ["coffee"], "owner": null, "opened": "1876"}'
+      );
+      expect(result.noteLinks?.[0].pin.properties).toEqual({
+        rating: 4.5,
+        opened: "1876",
+      });
+    });
+
+    it("should read a named style and warn when the block does not define it", () => {
+      const result = parseMapSyntax(
+        [
+          "---",
+          "styles: { museum: { color: blue }, park: { color: green } }",
+          "---",
+          '[48.8606, 2.3376] Louvre {"style": "museum"}',
+          '[48.8462, 2.3371] Luxembourg {"style": "garden"}',
+        ].join("\n")
+      );
+
+      expect(result.pins.map((pin) => pin.style)).toEqual(["museum", "garden"]);
+      expect(result.pins[0].properties).toBeUndefined();
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "warning",
+          code: "unknown-style",
+          message: "Unknown style: garden",
+          line: 5,
+          column: 1,
+          fix: "Known styles: museum, park",
+        },
+      ]);
+    });
   });
 
   describe("multiple pins in same map", () => {
@@ -110,7 +159,7 @@ describe("parseMapSyntax", () => {
 			`;
 
       const result = parseMapSyntax(input);
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(4);
 
       expect(result.pins[0]).toEqual({
@@ -118,6 +167,7 @@ describe("parseMapSyntax", () => {
         lng: -73.9851,
         label: "Times Square",
         color: "red",
+        line: 3,
       });
 
       expect(result.pins[1]).toEqual({
@@ -126,6 +176,7 @@ describe("parseMapSyntax", () => {
         label: "New York",
         color: "blue",
         group: "cities",
+        line: 4,
       });
 
       expect(result.pins[2]).toEqual({
@@ -133,12 +184,14 @@ describe("parseMapSyntax", () => {
         lng: 2.3522,
         label: "Paris",
         group: "cities",
+        line: 5,
       });
 
       expect(result.pins[3]).toEqual({
         lat: 51.5074,
         lng: -0.1278,
         label: "London",
+        line: 6,
       });
     });
   });
@@ -146,20 +199,22 @@ describe("parseMapSyntax", () => {
   describe("error handling", () => {
     it("should report invalid coordinates", () => {
       const result = parseMapSyntax("[invalid, -73.9851] Times Square");
-      expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain("Invalid coordinates");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("Invalid coordinates");
     });
 
     it("should report latitude out of range", () => {
       const result = parseMapSyntax("[91, -73.9851] Invalid");
-      expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain("Latitude must be between -90 and 90");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain(
+        "Latitude must be between -90 and 90"
+      );
     });
 
     it("should report longitude out of range", () => {
       const result = parseMapSyntax("[40.7589, 181] Invalid");
-      expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain(
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain(
         "Longitude must be between -180 and 180"
       );
     });
@@ -168,8 +223,10 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         "[40.7589, -73.9851] Times Square {invalid json}"
       );
-      expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain("Invalid JSON attributes");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain(
+        "Invalid JSON attributes"
+      );
     });
 
     it("should skip empty lines and comments", () => {
@@ -182,7 +239,7 @@ describe("parseMapSyntax", () => {
 			`;
 
       const result = parseMapSyntax(input);
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(2);
     });
 
@@ -195,7 +252,7 @@ describe("parseMapSyntax", () => {
 			`;
 
       const result = parseMapSyntax(input);
-      expect(result.errors).toHaveLength(3);
+      expect(result.diagnostics).toHaveLength(3);
       expect(result.pins).toHaveLength(1); // Only the good line
     });
   });
@@ -205,19 +262,22 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         '[40.7589, -73.9851] {"color": 123, "icon": true, "group": "valid"}'
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         group: "valid", // Only valid string attribute
+        line: 1,
       });
     });
   });
 
   describe("Plus Code syntax", () => {
+    const newYork = { plusCodeReference: { lat: 40.7589, lng: -73.9851 } };
+
     it("should parse Plus Code only", () => {
-      const result = parseMapSyntax("[87G8+Q9]");
-      expect(result.errors).toHaveLength(0);
+      const result = parseMapSyntax("[87G8+Q9]", newYork);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(1);
       expect(result.pins[0].lat).toBeCloseTo(40.32693750000003, 4);
       expect(result.pins[0].lng).toBeCloseTo(-73.73406250000001, 4);
@@ -226,7 +286,7 @@ describe("parseMapSyntax", () => {
 
     it("should parse Plus Code with label", () => {
       const result = parseMapSyntax("[87G8+Q9 New York, NY]");
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(1);
       expect(result.pins[0].lat).toBeCloseTo(40.32693750000003, 4);
       expect(result.pins[0].lng).toBeCloseTo(-73.73406250000001, 4);
@@ -236,7 +296,7 @@ describe("parseMapSyntax", () => {
 
     it("should parse Plus Code with label override", () => {
       const result = parseMapSyntax("[87G8+Q9 New York, NY] My Label");
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(1);
       expect(result.pins[0].lat).toBeCloseTo(40.32693750000003, 4);
       expect(result.pins[0].lng).toBeCloseTo(-73.73406250000001, 4);
@@ -245,9 +305,10 @@ describe("parseMapSyntax", () => {
 
     it("should parse Plus Code with JSON attributes", () => {
       const result = parseMapSyntax(
-        `[87G8+Q9] {"color": "red", "icon": "star"}`
+        `[87G8+Q9] {"color": "red", "icon": "star"}`,
+        newYork
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0].lat).toBeCloseTo(40.32693750000003, 4);
       expect(result.pins[0].lng).toBeCloseTo(-73.73406250000001, 4);
       expect(result.pins[0].color).toBe("red");
@@ -258,7 +319,7 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         `[87G8+Q9 New York, NY] {"color": "blue", "group": "nyc"}`
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0].lat).toBeCloseTo(40.32693750000003, 4);
       expect(result.pins[0].lng).toBeCloseTo(-73.73406250000001, 4);
       expect(result.pins[0].label).toBe("New York, NY");
@@ -272,8 +333,8 @@ describe("parseMapSyntax", () => {
         [40.7589, -73.9851] Times Square {"color": "red"}
         [87G7+WM Brooklyn]
       `;
-      const result = parseMapSyntax(input);
-      expect(result.errors).toHaveLength(0);
+      const result = parseMapSyntax(input, newYork);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(3);
 
       expect(result.pins[0].label).toBe("New York, NY");
@@ -288,22 +349,105 @@ describe("parseMapSyntax", () => {
 
     it("should report invalid Plus Code", () => {
       const result = parseMapSyntax("[6ABZ+L0] Invalid Plus Code");
-      expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain("Invalid Plus Code");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("Invalid Plus Code");
     });
 
     it("should handle case insensitive Plus Codes", () => {
       const result = parseMapSyntax("[87g8+q9 New York]");
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(1);
       expect(result.pins[0].lat).toBeCloseTo(40.32693750000003, 4);
       expect(result.pins[0].lng).toBeCloseTo(-73.73406250000001, 4);
     });
 
+    it("should recover short codes near the city written after them", () => {
+      const result = parseMapSyntax("[5XJ8+MR Melbourne] Flinders Street");
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0].lat).toBeCloseTo(-37.8183, 3);
+      expect(result.pins[0].lng).toBeCloseTo(144.9671, 3);
+      expect(result.pins[0].label).toBe("Flinders Street");
+    });
+
+    it("should recover short codes near the block's reference", () => {
+      const result = parseMapSyntax(
+        "---\nplusCodeReference: Melbourne\n---\n[5XJ8+MR]",
+        newYork
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0].lat).toBeCloseTo(-37.8183, 3);
+    });
+
+    it("should warn when a short code is recovered near the default", () => {
+      const result = parseMapSyntax("\n  [5XJ8+MR Atlantis]");
+      expect(result.pins).toHaveLength(1);
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "warning",
+          code: "plus-code-default-reference",
+          message: "Short Plus Code 5XJ8+MR was placed near New York",
+          line: 2,
+          column: 3,
+          fix: "Add a city after the code, like [5XJ8+MR Melbourne], or set plusCodeReference",
+        },
+      ]);
+    });
+
+    it("should not warn about full Plus Codes", () => {
+      const result = parseMapSyntax("[4RJ65XJ8+MR]");
+      expect(result.diagnostics).toHaveLength(0);
+    });
+
     it("should require brackets for Plus Codes", () => {
       const result = parseMapSyntax("87G8+Q9 New York, NY");
-      expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain("Invalid format");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("Invalid format");
+    });
+  });
+
+  describe("other coordinate notations", () => {
+    it("should keep the original notation on the pin", () => {
+      const result = parseMapSyntax(
+        `[40°45'32"N 73°59'06"W] Times Square {"color": "red"}`
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0]).toMatchObject({
+        label: "Times Square",
+        color: "red",
+        notation: { format: "dms", text: `40°45'32"N 73°59'06"W` },
+      });
+      expect(result.pins[0].lat).toBeCloseTo(40.7589, 3);
+    });
+
+    it("should not read # in a map link as a comment", () => {
+      const result = parseMapSyntax(
+        "[https://www.openstreetmap.org/#map=17/40.75890/-73.98510] Times Square # Busy"
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0]).toMatchObject({
+        lat: 40.7589,
+        lng: -73.9851,
+        label: "Times Square",
+        description: "Busy",
+        notation: { format: "url" },
+      });
+    });
+
+    it("should accept other notations as shape points", () => {
+      const result = parseMapSyntax(
+        "line [18T WL 85628 11322] [geo:40.7589,-73.9851] Walk"
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines[0].points[0].lat).toBeCloseTo(40.7484, 3);
+      expect(result.polylines[0].points[1]).toEqual({
+        lat: 40.7589,
+        lng: -73.9851,
+      });
+    });
+
+    it("should check the range of decoded coordinates", () => {
+      const result = parseMapSyntax("[geo:95,10]");
+      expect(result.diagnostics[0].code).toBe("latitude-out-of-range");
     });
   });
 
@@ -312,19 +456,20 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         "[40.7589, -73.9851] Times Square # Famous tourist attraction in NYC"
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(1);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         label: "Times Square",
         description: "Famous tourist attraction in NYC",
+        line: 1,
       });
     });
 
     it("should parse comment as description for Plus Codes", () => {
       const result = parseMapSyntax("[87G8+Q9 New York, NY] # Big Apple city");
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(1);
       expect(result.pins[0].lat).toBeCloseTo(40.32693750000003, 4);
       expect(result.pins[0].lng).toBeCloseTo(-73.73406250000001, 4);
@@ -336,13 +481,14 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         '[40.7589, -73.9851] Times Square {"color": "red"} # Tourist hotspot'
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         label: "Times Square",
         color: "red",
         description: "Tourist hotspot",
+        line: 1,
       });
     });
 
@@ -350,11 +496,12 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         '[40.7589, -73.9851] {"description": "JSON description"} # Comment description'
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         description: "Comment description",
+        line: 1,
       });
     });
 
@@ -362,31 +509,34 @@ describe("parseMapSyntax", () => {
       const result = parseMapSyntax(
         '[40.7589, -73.9851] {"description": "JSON description"}'
       );
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         description: "JSON description",
+        line: 1,
       });
     });
 
     it("should handle comment without other content", () => {
       const result = parseMapSyntax("[40.7589, -73.9851] # Just a comment");
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         description: "Just a comment",
+        line: 1,
       });
     });
 
     it("should handle empty comment", () => {
       const result = parseMapSyntax("[40.7589, -73.9851] Times Square #");
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins[0]).toEqual({
         lat: 40.7589,
         lng: -73.9851,
         label: "Times Square",
+        line: 1,
       });
     });
 
@@ -397,12 +547,782 @@ describe("parseMapSyntax", () => {
         [48.8566, 2.3522] Paris # City of lights
       `;
       const result = parseMapSyntax(input);
-      expect(result.errors).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(0);
       expect(result.pins).toHaveLength(3);
 
       expect(result.pins[0].description).toBe("NYC landmark");
       expect(result.pins[1].description).toBe("American city");
       expect(result.pins[2].description).toBe("City of lights");
     });
+
+    it("should continue a description on indented lines under the pin", () => {
+      const input = [
+        "[48.8606, 2.3376] Louvre # Art museum",
+        "  Home of the **Mona Lisa**",
+        "",
+        "  - See [[Paris trip]]",
+        "    - Closed Tuesdays",
+        "[48.8530, 2.3499] Notre-Dame",
+        "\tGothic cathedral",
+        "line [48.86, 2.33] [48.85, 2.35] Walk",
+        "  Along the river",
+      ].join("\n");
+      const result = parseMapSyntax(input);
+
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins.map((pin) => pin.description)).toEqual([
+        "Art museum\nHome of the **Mona Lisa**\n\n- See [[Paris trip]]\n  - Closed Tuesdays",
+        "Gothic cathedral",
+      ]);
+      expect(result.pins.map((pin) => pin.line)).toEqual([1, 6]);
+      expect(result.polylines[0].description).toBe("Along the river");
+    });
+
+    it("should read an indented pin after a blank line as a pin", () => {
+      const result = parseMapSyntax(
+        "[48.8606, 2.3376] Louvre\n\n  [48.8530, 2.3499] Notre-Dame"
+      );
+      expect(result.pins).toHaveLength(2);
+      expect(result.pins[0].description).toBeUndefined();
+    });
+  });
+
+  describe("line syntax", () => {
+    it("should parse a line with two points", () => {
+      const result = parseMapSyntax(
+        "line [40.7589, -73.9851] [40.7484, -73.9857]"
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toHaveLength(0);
+      expect(result.polylines).toEqual([
+        {
+          points: [
+            { lat: 40.7589, lng: -73.9851 },
+            { lat: 40.7484, lng: -73.9857 },
+          ],
+        },
+      ]);
+    });
+
+    it("should parse a line with label, attributes and comment", () => {
+      const result = parseMapSyntax(
+        'line [48.8566, 2.3522] [50.8503, 4.3517] [52.3702, 4.8952] Road Trip {"color": "blue", "width": 6, "dash": "dashed", "group": "trips"} # Day 1 to 6'
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines).toHaveLength(1);
+      expect(result.polylines[0]).toEqual({
+        points: [
+          { lat: 48.8566, lng: 2.3522 },
+          { lat: 50.8503, lng: 4.3517 },
+          { lat: 52.3702, lng: 4.8952 },
+        ],
+        label: "Road Trip",
+        color: "blue",
+        width: 6,
+        dash: "dashed",
+        group: "trips",
+        description: "Day 1 to 6",
+      });
+    });
+
+    it("should accept Plus Codes as line points", () => {
+      const result = parseMapSyntax("line [87G8Q257+HX] [87G8Q224+5J Midtown]");
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines[0].points).toHaveLength(2);
+      expect(result.polylines[0].points[0]).not.toHaveProperty("plusCode");
+      expect(result.polylines[0].points[1]).not.toHaveProperty("label");
+    });
+
+    it("should accept custom dash patterns", () => {
+      const result = parseMapSyntax(
+        'line [0, 0] [1, 1] {"dash": [12, 4, 2, 4]}'
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines[0].dash).toEqual([12, 4, 2, 4]);
+    });
+
+    it("should ignore invalid width and dash values", () => {
+      const result = parseMapSyntax(
+        'line [0, 0] [1, 1] {"width": "wide", "dash": "wavy", "color": "red"}'
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polylines[0]).toEqual({
+        points: [
+          { lat: 0, lng: 0 },
+          { lat: 1, lng: 1 },
+        ],
+        color: "red",
+      });
+    });
+
+    it("should parse lines alongside pins", () => {
+      const input = `
+        [40.7589, -73.9851] Times Square
+        line [40.7589, -73.9851] [40.7484, -73.9857] Walk
+        [40.7484, -73.9857] Empire State Building
+      `;
+      const result = parseMapSyntax(input);
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toHaveLength(2);
+      expect(result.polylines).toHaveLength(1);
+      expect(result.polylines[0].label).toBe("Walk");
+    });
+
+    it("should report a line with a single point", () => {
+      const result = parseMapSyntax("line [40.7589, -73.9851] Stub");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("at least 2 points");
+    });
+
+    it("should report invalid line points", () => {
+      const result = parseMapSyntax("line [40.7589, -73.9851] [Broadway]");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("Invalid line point");
+    });
+
+    it("should report a line without points", () => {
+      const result = parseMapSyntax("line Broadway");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("Invalid line format");
+    });
+  });
+
+  describe("polygon syntax", () => {
+    it("should parse a polygon with three corners", () => {
+      const result = parseMapSyntax("polygon [0, 0] [0, 1] [1, 1]");
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toHaveLength(0);
+      expect(result.polygons).toEqual([
+        {
+          points: [
+            { lat: 0, lng: 0 },
+            { lat: 0, lng: 1 },
+            { lat: 1, lng: 1 },
+          ],
+        },
+      ]);
+    });
+
+    it("should parse a polygon with label, attributes and comment", () => {
+      const result = parseMapSyntax(
+        'polygon [40.7644, -73.973] [40.8003, -73.9582] [40.7968, -73.9492] [40.7681, -73.9818] "Central Park" {"fill": "green", "opacity": 0.4, "stroke": "#225522", "width": 3, "group": "parks"} # 843 acres'
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polygons).toHaveLength(1);
+      expect(result.polygons[0]).toEqual({
+        points: [
+          { lat: 40.7644, lng: -73.973 },
+          { lat: 40.8003, lng: -73.9582 },
+          { lat: 40.7968, lng: -73.9492 },
+          { lat: 40.7681, lng: -73.9818 },
+        ],
+        label: "Central Park",
+        fill: "green",
+        opacity: 0.4,
+        stroke: "#225522",
+        width: 3,
+        group: "parks",
+        description: "843 acres",
+      });
+    });
+
+    it("should ignore out of range opacity", () => {
+      const result = parseMapSyntax(
+        'polygon [0, 0] [0, 1] [1, 1] {"opacity": 2, "fill": "blue"}'
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.polygons[0].opacity).toBeUndefined();
+      expect(result.polygons[0].fill).toBe("blue");
+    });
+
+    it("should warn about a fill color the map cannot draw", () => {
+      const result = parseMapSyntax(
+        'polygon [0, 0] [0, 1] [1, 1] {"fill": "gren", "stroke": "#12345"}'
+      );
+      expect(result.diagnostics.map((d) => [d.severity, d.message])).toEqual([
+        ["warning", "Invalid color: gren"],
+        ["warning", "Invalid color: #12345"],
+      ]);
+      expect(result.polygons[0].fill).toBeUndefined();
+      expect(result.polygons[0].stroke).toBeUndefined();
+    });
+
+    it("should parse polygons alongside pins and lines", () => {
+      const input = `
+        polygon [0, 0] [0, 1] [1, 1] Area
+        line [0, 0] [1, 1] Path
+        [0.5, 0.5] Middle
+      `;
+      const result = parseMapSyntax(input);
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toHaveLength(1);
+      expect(result.polylines).toHaveLength(1);
+      expect(result.polygons).toHaveLength(1);
+    });
+
+    it("should report a polygon with too few corners", () => {
+      const result = parseMapSyntax("polygon [0, 0] [1, 1] Sliver");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("at least 3 points");
+    });
+
+    it("should report a polygon without corners", () => {
+      const result = parseMapSyntax("polygon Downtown");
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0].message).toContain("Invalid polygon format");
+    });
+  });
+
+  describe("radius attribute", () => {
+    it("should parse radius in meters", () => {
+      const result = parseMapSyntax('[40.7589, -73.9851] {"radius": "500m"}');
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0].radius).toBe(500);
+    });
+
+    it("should draw a radius pin with a mistyped color in the default color", () => {
+      const result = parseMapSyntax(
+        '[40.7589, -73.9851] Hotel {"radius": "5km", "color": "gren"}'
+      );
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          severity: "warning",
+          code: "invalid-color",
+          message: "Invalid color: gren",
+          line: 1,
+        }),
+      ]);
+      expect(result.pins[0].radius).toBe(5000);
+      expect(result.pins[0].color).toBeUndefined();
+    });
+
+    it("should convert kilometers, miles and feet to meters", () => {
+      const input = `
+        [0, 0] {"radius": "2.5km"}
+        [0, 0] {"radius": "1 mi"}
+        [0, 0] {"radius": "1000ft"}
+      `;
+      const result = parseMapSyntax(input);
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0].radius).toBe(2500);
+      expect(result.pins[1].radius).toBeCloseTo(1609.344, 3);
+      expect(result.pins[2].radius).toBeCloseTo(304.8, 3);
+    });
+
+    it("should treat plain numbers as meters", () => {
+      const input = `
+        [0, 0] {"radius": 250}
+        [0, 0] {"radius": "750"}
+      `;
+      const result = parseMapSyntax(input);
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0].radius).toBe(250);
+      expect(result.pins[1].radius).toBe(750);
+    });
+
+    it("should report invalid radius values", () => {
+      const input = `
+        [0, 0] {"radius": "far"}
+        [0, 0] {"radius": -5}
+        [0, 0] {"radius": "0km"}
+      `;
+      const result = parseMapSyntax(input);
+      expect(result.diagnostics).toHaveLength(3);
+      expect(result.diagnostics[0].message).toContain("Invalid radius");
+      expect(result.pins).toHaveLength(0);
+    });
+  });
+
+  describe("icon attributes", () => {
+    it("should read image icons with their size and anchor", () => {
+      const result = parseMapSyntax(
+        '[0, 0] Brewery {"icon": "[[icons/brewery.svg]]", "iconSize": 24, "iconAnchor": "bottom"}'
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins[0]).toMatchObject({
+        label: "Brewery",
+        icon: "[[icons/brewery.svg]]",
+        iconSize: 24,
+        iconAnchor: [0.5, 1],
+      });
+    });
+
+    it("should warn about icons the map cannot draw", () => {
+      const result = parseMapSyntax('[0, 0] {"icon": "brewery"}');
+      expect(result.pins[0].icon).toBe("brewery");
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          severity: "warning",
+          code: "unknown-icon",
+          message: "Unknown icon: brewery",
+        }),
+      ]);
+    });
+
+    it("should report invalid icon sizes and anchors", () => {
+      const result = parseMapSyntax(
+        '[0, 0] {"iconSize": 0}\n[1, 1] {"iconAnchor": [16, 32]}'
+      );
+      expect(result.pins).toHaveLength(0);
+      expect(result.diagnostics.map((d) => d.code)).toEqual([
+        "invalid-icon-size",
+        "invalid-icon-anchor",
+      ]);
+    });
+  });
+
+  describe("weight attribute", () => {
+    it("should read weights as numbers", () => {
+      const result = parseMapSyntax(
+        '[0, 0] {"weight": 3}\n[1, 1] {"weight": "0.5"}\n[2, 2] {"weight": 0}'
+      );
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins.map((pin) => pin.weight)).toEqual([3, 0.5, 0]);
+      expect(result.pins[0].properties).toBeUndefined();
+    });
+
+    it("should report invalid weights", () => {
+      const result = parseMapSyntax(
+        '[0, 0] {"weight": -1}\n[1, 1] {"weight": "heavy"}'
+      );
+      expect(result.pins).toHaveLength(0);
+      expect(result.diagnostics.map((d) => d.message)).toEqual([
+        "Invalid weight: -1",
+        'Invalid weight: "heavy"',
+      ]);
+    });
+  });
+
+  describe("GeoJSON blocks", () => {
+    it("should parse a block that contains GeoJSON", () => {
+      const input = `
+        {
+          "type": "FeatureCollection",
+          "features": [
+            {
+              "type": "Feature",
+              "geometry": { "type": "Point", "coordinates": [-73.9851, 40.7589] },
+              "properties": { "name": "Times Square", "color": "red" }
+            }
+          ]
+        }
+      `;
+      const result = parseMapSyntax(input);
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toEqual([
+        { lat: 40.7589, lng: -73.9851, label: "Times Square", color: "red" },
+      ]);
+    });
+
+    it("should keep frontmatter config with a GeoJSON body", () => {
+      const input = `---
+labelsOnHover: true
+---
+{ "type": "Point", "coordinates": [2.3522, 48.8566] }`;
+      const result = parseMapSyntax(input);
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toHaveLength(1);
+      expect(result.config?.labelsOnHover).toBe(true);
+    });
+  });
+
+  describe("linked data files", () => {
+    it("should read a single GeoJSON path", () => {
+      const result = parseMapSyntax(`---
+geojson: data/parks.geojson
+---
+[0, 0]`);
+      expect(result.config?.geojson).toEqual(["data/parks.geojson"]);
+    });
+
+    it("should read wiki links", () => {
+      const result = parseMapSyntax(`---
+geojson: [[parks.geojson]] [[trails.geojson|Trails]]
+---
+[0, 0]`);
+      expect(result.config?.geojson).toEqual([
+        "parks.geojson",
+        "trails.geojson",
+      ]);
+    });
+
+    it("should read GPX files", () => {
+      const result = parseMapSyntax(`---
+gpx: [[2026-07-hike.gpx]]
+---
+[0, 0]`);
+      expect(result.config?.gpx).toEqual(["2026-07-hike.gpx"]);
+    });
+
+    it("should read KML and KMZ files", () => {
+      const result = parseMapSyntax(`---
+kml: [[My Places.kmz]] [[cafes.kml]]
+---
+[0, 0]`);
+      expect(result.config?.kml).toEqual(["My Places.kmz", "cafes.kml"]);
+    });
+
+    it("should read inline lists", () => {
+      const result = parseMapSyntax(`---
+geojson: [parks.geojson, "trails.geojson"]
+---
+[0, 0]`);
+      expect(result.config?.geojson).toEqual([
+        "parks.geojson",
+        "trails.geojson",
+      ]);
+    });
+  });
+
+  describe("note queries", () => {
+    it("should keep from and where queries as written", () => {
+      const result = parseMapSyntax(`---
+from: #travel and "Trips/2026"
+where: visited = true
+---`);
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins).toHaveLength(0);
+      expect(result.config?.from).toBe('#travel and "Trips/2026"');
+      expect(result.config?.where).toBe("visited = true");
+    });
+
+    it("should keep quotes around a single folder", () => {
+      const result = parseMapSyntax(`---
+from: "Trips/2026"
+---
+[0, 0] Extra pin`);
+      expect(result.config?.from).toBe('"Trips/2026"');
+      expect(result.pins).toHaveLength(1);
+    });
+  });
+
+  describe("note links", () => {
+    it("should collect note links with their position among the pins", () => {
+      const result = parseMapSyntax(`[48.2, 16.37] Hotel
+[[Cafe Central]]
+[48.21, 16.36] Museum`);
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.pins.map((pin) => pin.label)).toEqual(["Hotel", "Museum"]);
+      expect(result.noteLinks).toEqual([
+        { note: "Cafe Central", pin: {}, index: 1, line: 2 },
+      ]);
+    });
+
+    it("should read the label, attributes and comment", () => {
+      const result = parseMapSyntax(
+        '[[Places/Cafe Central]] Coffee {"color": "brown", "icon": "cafe"} # Apple strudel'
+      );
+      expect(result.noteLinks?.[0]).toEqual({
+        note: "Places/Cafe Central",
+        pin: {
+          label: "Coffee",
+          color: "brown",
+          icon: "cafe",
+          description: "Apple strudel",
+        },
+        index: 0,
+        line: 1,
+      });
+    });
+
+    it("should use the display text as the label", () => {
+      const result = parseMapSyntax("[[Cafe Central|Café]]");
+      expect(result.noteLinks?.[0].note).toBe("Cafe Central");
+      expect(result.noteLinks?.[0].pin.label).toBe("Café");
+    });
+
+    it("should keep headings in the link", () => {
+      const result = parseMapSyntax("[[Vienna#Cafes]] # Coffee tour");
+      expect(result.noteLinks?.[0].note).toBe("Vienna#Cafes");
+      expect(result.noteLinks?.[0].pin.description).toBe("Coffee tour");
+    });
+
+    it("should report empty links and invalid attributes", () => {
+      const result = parseMapSyntax(`[[]]
+[[Cafe Central]] {"radius": "far"}`);
+      expect(result.noteLinks).toHaveLength(0);
+      expect(result.diagnostics).toHaveLength(2);
+      expect(result.diagnostics[0]).toMatchObject({
+        code: "invalid-note-link",
+        line: 1,
+      });
+      expect(result.diagnostics[1]).toMatchObject({
+        code: "invalid-radius",
+        line: 2,
+      });
+    });
+  });
+
+  describe("place names", () => {
+    it("should leave place names to be looked up, labelled with the place", () => {
+      const result = parseMapSyntax(`[40.7589, -73.9851] Times Square
+[Paris, France]`);
+      expect(result.pins).toHaveLength(1);
+      expect(result.places).toEqual([
+        {
+          place: "Paris, France",
+          pin: { label: "Paris, France" },
+          index: 1,
+          line: 2,
+        },
+      ]);
+    });
+
+    it("should read the label, attributes and comment", () => {
+      const result = parseMapSyntax(
+        '[São Paulo] Lunch spot {"color": "green"} # Pão de queijo'
+      );
+      expect(result.places?.[0]).toMatchObject({
+        place: "São Paulo",
+        pin: {
+          label: "Lunch spot",
+          color: "green",
+          description: "Pão de queijo",
+        },
+      });
+    });
+
+    it("should keep treating mistyped coordinates as coordinates", () => {
+      const result = parseMapSyntax("[invalid, -73.9851]");
+      expect(result.places).toHaveLength(0);
+      expect(result.diagnostics[0].code).toBe("invalid-coordinates");
+    });
+
+    it("should look up a lowercase place with a comma", () => {
+      const result = parseMapSyntax("[paris, france]");
+      expect(result.diagnostics).toHaveLength(0);
+      expect(result.places?.[0].place).toBe("paris, france");
+    });
+
+    it("should treat coordinate placeholders as mistyped coordinates", () => {
+      const result = parseMapSyntax("[lat, lng] Somewhere");
+      expect(result.places).toHaveLength(0);
+      expect(result.diagnostics[0].code).toBe("invalid-coordinates");
+    });
+  });
+
+  describe("diagnostics", () => {
+    it("should count blank lines, comments and frontmatter", () => {
+      const result = parseMapSyntax(`
+---
+labelsOnHover: true
+---
+
+# Sights
+[40.7589, -73.9851] Times Square
+
+  [invalid, -73.9851] Broken`);
+      expect(result.diagnostics).toEqual([
+        {
+          severity: "error",
+          code: "invalid-coordinates",
+          message: "Invalid coordinates",
+          line: 9,
+          column: 3,
+          fix: "Use decimal degrees: [40.7589, -73.9851]",
+        },
+      ]);
+    });
+
+    it("should point at the invalid point of a shape", () => {
+      const result = parseMapSyntax(
+        "line [40.7589, -73.9851] [north, south] [40.7, -74]"
+      );
+      expect(result.diagnostics[0]).toMatchObject({
+        code: "invalid-point",
+        line: 1,
+        column: 26,
+      });
+    });
+
+    it("should suggest swapping latitude and longitude", () => {
+      const result = parseMapSyntax("[151.2093, -33.8688] Sydney");
+      expect(result.diagnostics[0]).toMatchObject({
+        code: "latitude-out-of-range",
+        fix: "Put latitude first: [-33.8688, 151.2093]",
+      });
+    });
+
+    it("should suggest a fix for invalid JSON and formats", () => {
+      const result = parseMapSyntax(`[1, 2] Bad {color: red}
+Times Square
+polygon [0, 0] [1, 1]`);
+      expect(result.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+        "invalid-attributes",
+        "invalid-format",
+        "too-few-points",
+      ]);
+      expect(result.diagnostics[2].fix).toBe("Add 1 more [lat, lng] point");
+      expect(
+        result.diagnostics.every(
+          (diagnostic) => diagnostic.severity === "error" && diagnostic.fix
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe("round trip through serializeMapSyntax", () => {
+    const newYork = { plusCodeReference: { lat: 40.7589, lng: -73.9851 } };
+
+    // Small seeded generator so failures can be reproduced
+    const createRandom = (seed: number) => () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const pick = <T>(random: () => number, items: T[]): T =>
+      items[Math.floor(random() * items.length)];
+
+    const randomText = (random: () => number, characters: string) => {
+      const length = 1 + Math.floor(random() * 12);
+      let text = "";
+      for (let i = 0; i < length; i++) {
+        text += pick(random, characters.split(""));
+      }
+      // Labels may hold either kind of quote, but not both
+      return text.includes('"') ? text.replace(/'/g, "") || "x" : text;
+    };
+
+    const randomCoordinate = (random: () => number, max: number) =>
+      Number((random() * 2 * max - max).toFixed(6)) || 0;
+
+    const randomPin = (random: () => number): MapPin => {
+      const pin: MapPin = {
+        lat: randomCoordinate(random, 90),
+        lng: randomCoordinate(random, 180),
+      };
+      if (random() < 0.8) {
+        pin.label = randomText(random, "abc XYZ 123 #{}[]'\":,.-");
+      }
+      if (random() < 0.5) pin.color = pick(random, ["red", "#ff0000"]);
+      if (random() < 0.3) {
+        pin.icon = pick(random, ["star", "cafe", "[[icons/site #1.svg]]"]);
+      }
+      if (random() < 0.1) pin.iconAnchor = [0.5, 1];
+      if (random() < 0.3) pin.group = randomText(random, "ab 1#'\"");
+      if (random() < 0.2) pin.link = "https://example.com/#top";
+      if (random() < 0.2) pin.radius = 1 + Math.floor(random() * 5000);
+      if (random() < 0.2) pin.weight = Math.round(random() * 100) / 10;
+      if (random() < 0.3) {
+        pin.properties = {
+          rating: Math.round(random() * 50) / 10,
+          open: random() < 0.5,
+          url2: randomText(random, "ab #{}'"),
+        };
+      }
+      if (random() < 0.5) {
+        pin.description = pick(random, [
+          randomText(random, "ab #{}'\""),
+          " padded ",
+          "two\nlines",
+          "**Open** daily\n- Cafe\n  - Terrace\n\nClosed Mondays",
+          "Blank line\n\nfirst",
+          "Indented\n  only",
+        ]);
+      }
+      return pin;
+    };
+
+    it("should read back random pins unchanged", () => {
+      const random = createRandom(42);
+      for (let run = 0; run < 200; run++) {
+        const pins = [randomPin(random), randomPin(random)];
+        const source = serializeMapSyntax(pins);
+        const result = parseMapSyntax(source);
+
+        // Description lines under a pin move the next pin down
+        const pinLines = source
+          .split("\n")
+          .map((line, index) => (line.startsWith("[") ? index + 1 : 0))
+          .filter(Boolean);
+        pins.forEach((pin, index) => (pin.line = pinLines[index]));
+
+        expect({ source, diagnostics: result.diagnostics }).toEqual({
+          source,
+          diagnostics: [],
+        });
+        expect(result.pins).toEqual(pins);
+      }
+    });
+
+    it("should read back random shapes unchanged", () => {
+      const random = createRandom(7);
+      for (let run = 0; run < 100; run++) {
+        const points = [0, 1, 2].map(() => ({
+          lat: randomCoordinate(random, 90),
+          lng: randomCoordinate(random, 180),
+        }));
+        const polyline: MapPolyline = {
+          points: points.slice(0, 2),
+          label: randomText(random, "ab [#]{}'\""),
+          dash: pick<MapPolyline["dash"]>(random, ["dashed", [12, 4]]),
+          width: 1 + Math.floor(random() * 8),
+        };
+        const polygon: MapPolygon = {
+          points,
+          fill: "green",
+          opacity: Math.round(random() * 10) / 10,
+          description: randomText(random, "ab #'"),
+        };
+        const source = serializeMapSyntax([], undefined, {
+          polylines: [polyline],
+          polygons: [polygon],
+        });
+        const result = parseMapSyntax(source);
+
+        expect(result.polylines).toEqual([polyline]);
+        expect(result.polygons).toEqual([polygon]);
+      }
+    });
+
+    it("should keep blocks as written in every notation", () => {
+      const source = `---
+center: [48.8566, 2.3522]
+zoom: 12
+height: 60vh
+aspectRatio: 1.5
+mapLayerURL: https://a.tile.openstreetmap.fr/hot/{z}/{x}/{y}.png
+gpx: [[Day 1.gpx]] [[Day 2.gpx]]
+from: #travel and -"Trips/2025"
+bounds: [[48.8, 2.25], [48.9, 2.42]]
+---
+[40.7589, -73.9851] "Joe's" {"color": "red"} # Best # pizza
+[87G8Q257+HX] Times Square {"group": "sights"}
+[Q257+HX Melbourne] {"icon": "star"}
+[40°45'32"N 73°59'06"W] DMS
+[geohash:dr5ru7]
+[Paris, France] Lunch spot
+line [40.7589, -73.9851] [40.7484, -73.9857] Walk {"dash": "dashed"}
+polygon [48.86, 2.33] [48.87, 2.35] [48.85, 2.36] {"fill": "green"}`;
+
+      const parsed = parseMapSyntax(source, newYork);
+      const serialized = serializeMapSyntax(
+        [
+          ...parsed.pins,
+          {
+            lat: 48.8566,
+            lng: 2.3522,
+            ...parsed.places![0].pin,
+            notation: { format: "place", text: parsed.places![0].place },
+          },
+        ],
+        parsed.config,
+        parsed
+      );
+      const reparsed = parseMapSyntax(serialized, newYork);
+
+      expect(parsed.diagnostics).toEqual([]);
+      expect(reparsed.diagnostics).toEqual([]);
+      expect(reparsed.config).toEqual(parsed.config);
+      expect(reparsed.pins).toEqual(parsed.pins);
+      expect(reparsed.places).toEqual([
+        { ...parsed.places![0], index: parsed.pins.length, line: 16 },
+      ]);
+      expect(reparsed.polylines).toEqual(parsed.polylines);
+      expect(reparsed.polygons).toEqual(parsed.polygons);
+      expect(serializeMapSyntax(reparsed.pins, reparsed.config)).toBe(
+        serializeMapSyntax(parsed.pins, parsed.config)
+      );
+    });
   });
 });
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "bun:test";
+import {
+  getIconImagePath,
+  getIconText,
+  getLucideIconId,
+  isKnownIcon,
+  readIconAnchor,
+} from "../src/pinIcons";
+
+describe("getIconImagePath", () => {
+  it("should read image links and paths", () => {
+    expect(getIconImagePath("[[icons/brewery.svg]]")).toBe("icons/brewery.svg");
+    expect(getIconImagePath("![[brewery.PNG|Brewery]]")).toBe("brewery.PNG");
+    expect(getIconImagePath("icons/site type.webp")).toBe(
+      "icons/site type.webp"
+    );
+  });
+
+  it("should leave icon names and other files alone", () => {
+    expect(getIconImagePath("star")).toBeUndefined();
+    expect(getIconImagePath("[[Brewery notes]]")).toBeUndefined();
+    expect(getIconImagePath("[[data.geojson]]")).toBeUndefined();
+    expect(getIconImagePath(undefined)).toBeUndefined();
+  });
+});
+
+describe("getLucideIconId", () => {
+  it("should read Lucide icon names in any case", () => {
+    expect(getLucideIconId("lucide-tent")).toBe("lucide-tent");
+    expect(getLucideIconId(" Lucide-Fuel ")).toBe("lucide-fuel");
+    expect(getLucideIconId("lucide-circle-parking")).toBe(
+      "lucide-circle-parking"
+    );
+  });
+
+  it("should leave other icons alone", () => {
+    expect(getLucideIconId("tent")).toBeUndefined();
+    expect(getLucideIconId("lucide-")).toBeUndefined();
+    expect(getLucideIconId("lucide-tent.svg")).toBeUndefined();
+    expect(getLucideIconId(undefined)).toBeUndefined();
+  });
+});
+
+describe("isKnownIcon", () => {
+  it("should know icon names in any case, Lucide icons and image files", () => {
+    expect(getIconText("Cafe")).toBe("☕");
+    expect(isKnownIcon("cafe")).toBe(true);
+    expect(isKnownIcon("lucide-tent")).toBe(true);
+    expect(isKnownIcon("[[icons/brewery.svg]]")).toBe(true);
+    expect(isKnownIcon("brewery")).toBe(false);
+  });
+});
+
+describe("readIconAnchor", () => {
+  it("should read anchor names and fractions", () => {
+    expect(readIconAnchor("bottom")).toEqual([0.5, 1]);
+    expect(readIconAnchor(" Center ")).toEqual([0.5, 0.5]);
+    expect(readIconAnchor([0.25, 1])).toEqual([0.25, 1]);
+  });
+
+  it("should reject anything else", () => {
+    expect(readIconAnchor("middle")).toBeUndefined();
+    expect(readIconAnchor([16, 32])).toBeUndefined();
+    expect(readIconAnchor([0.5])).toBeUndefined();
+    expect(readIconAnchor(0.5)).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "bun:test";
+import { serializeMapSyntax, serializePin } from "../src/serializeMapSyntax";
+import { parseMapSyntax } from "../src/parseMapSyntax";
+
+describe("serializePin", () => {
+  it("should write the label, attributes and description", () => {
+    expect(
+      serializePin({
+        lat: 40.7589,
+        lng: -73.9851,
+        label: "Times Square",
+        color: "red",
+        radius: 500,
+        description: "Bright lights",
+      })
+    ).toBe(
+      '[40.7589, -73.9851] Times Square {"color": "red", "radius": 500} # Bright lights'
+    );
+  });
+
+  it("should quote labels that would be read differently", () => {
+    expect(serializePin({ lat: 1, lng: 2, label: "Joe's #1" })).toBe(
+      `[1, 2] "Joe's #1"`
+    );
+    expect(serializePin({ lat: 1, lng: 2, label: 'The "Met"' })).toBe(
+      `[1, 2] 'The "Met"'`
+    );
+  });
+
+  it("should keep Plus Codes and notations as written", () => {
+    expect(
+      serializePin({
+        lat: -37.8136,
+        lng: 144.9631,
+        plusCode: "Q257+HX",
+        plusCodePlace: "Melbourne",
+        label: "Melbourne",
+      })
+    ).toBe("[Q257+HX Melbourne]");
+    expect(
+      serializePin({
+        lat: -37.8136,
+        lng: 144.9631,
+        plusCode: "Q257+HX",
+        plusCodePlace: "Melbourne",
+        label: "Cafe",
+      })
+    ).toBe("[Q257+HX Melbourne] Cafe");
+    expect(
+      serializePin({
+        lat: 40.7484,
+        lng: -73.9857,
+        notation: { format: "mgrs", text: "18T WL 85628 11322" },
+      })
+    ).toBe("[18T WL 85628 11322]");
+  });
+
+  it("should indent description lines after the first under the pin", () => {
+    expect(
+      serializePin({
+        lat: 1,
+        lng: 2,
+        description: "First\n- Second {x}\n\nThird",
+      })
+    ).toBe("[1, 2] # First\n  - Second {x}\n\n  Third");
+  });
+
+  it("should put descriptions that would not read back in the attributes", () => {
+    expect(
+      serializePin({ lat: 1, lng: 2, description: "First\n  Second {x}" })
+    ).toBe('[1, 2] {"description": "First\\n  Second \\u007bx\\u007d"}');
+    expect(serializePin({ lat: 1, lng: 2, description: " padded " })).toBe(
+      '[1, 2] {"description": " padded "}'
+    );
+  });
+});
+
+describe("serializeMapSyntax", () => {
+  it("should write the config as frontmatter", () => {
+    expect(
+      serializeMapSyntax([{ lat: 1, lng: 2 }], {
+        center: { lat: 48.8566, lng: 2.3522 },
+        zoom: 12,
+        gpx: ["Day 1.gpx", "Day 2.gpx"],
+        where: "visited = true",
+      })
+    ).toBe(
+      [
+        "---",
+        "center: [48.8566, 2.3522]",
+        "zoom: 12",
+        "gpx: [[Day 1.gpx]] [[Day 2.gpx]]",
+        "where: visited = true",
+        "---",
+        "[1, 2]",
+      ].join("\n")
+    );
+  });
+
+  it("should write styles on one line that reads back the same", () => {
+    const config = {
+      styles: { museum: { color: "blue", icon: "museum" } },
+      groups: { Food: { icon: "restaurant" } },
+    };
+    const source = serializeMapSyntax(
+      [{ lat: 1, lng: 2, style: "museum" }],
+      config
+    );
+
+    expect(source).toBe(
+      [
+        "---",
+        "styles: { museum: { color: blue, icon: museum } }",
+        "groups: { Food: { icon: restaurant } }",
+        "---",
+        '[1, 2] {"style": "museum"}',
+      ].join("\n")
+    );
+    expect(parseMapSyntax(source).config).toEqual(config);
+  });
+
+  it("should write overlays on one line that reads back the same", () => {
+    const config = { basemap: "Topo", overlays: ["Hiking trails", "Cycling"] };
+    const source = serializeMapSyntax([], config);
+
+    expect(source).toBe(
+      "---\nbasemap: Topo\noverlays: [ Hiking trails, Cycling ]\n---"
+    );
+    expect(parseMapSyntax(source).config).toEqual(config);
+  });
+
+  it("should write an icon anchor as a list", () => {
+    const source = serializeMapSyntax([], { iconAnchor: [0.5, 1] });
+
+    expect(source).toBe("---\niconAnchor: [0.5, 1]\n---");
+    expect(parseMapSyntax(source).config).toEqual({ iconAnchor: [0.5, 1] });
+  });
+});
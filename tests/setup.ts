@@ -0,0 +1,12 @@
+import { DOMParser } from "@xmldom/xmldom";
+
+// Obsidian provides DOMParser for reading GPX and KML files; bun does not.
+// xmldom throws on documents that are not well-formed, where the browser
+// returns a parsererror, and parseXmlDocument handles both.
+class QuietDOMParser extends DOMParser {
+  constructor() {
+    super({ onError: () => undefined });
+  }
+}
+
+globalThis.DOMParser = QuietDOMParser as unknown as typeof globalThis.DOMParser;
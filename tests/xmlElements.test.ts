@@ -0,0 +1,33 @@
+import { describe, it, expect } from "bun:test";
+import {
+  findChild,
+  findChildren,
+  findDescendants,
+  getChildText,
+  parseXmlDocument,
+} from "../src/xmlElements";
+
+describe("parseXmlDocument", () => {
+  it("should find children by name, ignoring namespace prefixes", () => {
+    const document = parseXmlDocument(
+      '<kml:Document xmlns:kml="http://www.opengis.net/kml/2.2"><kml:name>Places</kml:name><kml:Folder/><kml:Folder/></kml:Document>'
+    );
+    const root = findChild(document!, "Document")!;
+    expect(getChildText(root, "name")).toBe("Places");
+    expect(findChildren(root, "Folder")).toHaveLength(2);
+  });
+
+  it("should find descendants at any depth", () => {
+    const document = parseXmlDocument(
+      "<a><Placemark/><Folder><Placemark/><Folder><Placemark/></Folder></Folder></a>"
+    );
+    expect(
+      findDescendants(document!.documentElement, "Placemark")
+    ).toHaveLength(3);
+  });
+
+  it("should return null for documents that are not well-formed", () => {
+    expect(parseXmlDocument("<a><b></a>")).toBeNull();
+    expect(parseXmlDocument("not xml")).toBeNull();
+  });
+});